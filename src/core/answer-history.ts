@@ -0,0 +1,101 @@
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import type { PromptConfig, PromptResult } from '../types/index.d.js'
+import { pathExists, readFile, writeJson } from '../utils/fs.js'
+import { isSecretPrompt } from '../utils/redact.js'
+
+/**
+ * Returns the directory for user configuration files: `$XDG_CONFIG_HOME`, falling
+ * back to `~/.config`, or `%APPDATA%` on Windows.
+ *
+ * @param env - The environment variables to read
+ * @param platform - The operating system platform
+ * @returns The absolute configuration directory
+ */
+export function getConfigDir(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+): string {
+  if (env.XDG_CONFIG_HOME) return env.XDG_CONFIG_HOME
+  if (platform === 'win32' && env.APPDATA) return env.APPDATA
+  return join(homedir(), '.config')
+}
+
+/**
+ * Whether the answer to a prompt is remembered for the next run. Secrets never are,
+ * and the project name only with `persist: true` since it differs for every project.
+ *
+ * @param prompt - The prompt configuration
+ * @returns True when the answer may be stored and offered as a default
+ */
+export function isRemembered(prompt: PromptConfig): boolean {
+  if (isSecretPrompt(prompt)) return false
+  return prompt.name === 'projectName' ? prompt.persist === true : prompt.persist !== false
+}
+
+/**
+ * Remembers answers between runs so they can be offered as defaults next time.
+ * Answers are stored per CLI in `<config dir>/<cli name>/answers.json`. Only
+ * answers of prompts that pass `isRemembered()` are stored.
+ *
+ * @example
+ * ```typescript
+ * const history = new AnswerHistory('create-my-app');
+ * const previous = await history.load();
+ * // ... prompt ...
+ * await history.save(answers, config.prompts);
+ * ```
+ */
+export class AnswerHistory {
+  readonly filePath: string
+
+  /**
+   * Creates a history store for a CLI.
+   *
+   * @param cliName - The CLI name, used as the directory name
+   * @param configDir - The configuration directory, see `getConfigDir()`
+   */
+  constructor(cliName: string, configDir: string = getConfigDir()) {
+    // Scoped names such as `@acme/create` become `@acme-create`
+    this.filePath = join(configDir, cliName.replace(/[\\/]/g, '-'), 'answers.json')
+  }
+
+  /**
+   * Loads the remembered answers. A missing or corrupt file is treated as empty,
+   * so a broken history never prevents the CLI from running.
+   *
+   * @returns The remembered answers keyed by prompt name
+   */
+  async load(): Promise<PromptResult> {
+    try {
+      if (!(await pathExists(this.filePath))) return {}
+      const parsed: unknown = JSON.parse(await readFile(this.filePath))
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as PromptResult)
+        : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Stores the answers of the given prompts, merged over the remembered ones so
+   * answers of prompts that were skipped this time are kept.
+   *
+   * @param answers - The collected answers
+   * @param prompts - The prompt configurations the answers belong to
+   */
+  async save(answers: PromptResult, prompts: PromptConfig[]): Promise<void> {
+    const remembered = await this.load()
+
+    for (const prompt of prompts) {
+      if (!isRemembered(prompt)) {
+        delete remembered[prompt.name]
+      } else if (answers[prompt.name] !== undefined) {
+        remembered[prompt.name] = answers[prompt.name]
+      }
+    }
+
+    await writeJson(this.filePath, remembered)
+  }
+}
@@ -2,16 +2,47 @@
 // exports are not available in the runtime environment.
 const white = (s: string) => s
 const gray = (s: string) => s
-import { Command } from 'commander'
 import type {
   CLIConfig,
+  CommandConfig,
+  ConflictResolution,
+  FileConflict,
+  GenerationPlan,
   GeneratorConfig,
+  HelpInfo,
+  PackageManager,
+  PromptChoice,
   PromptConfig,
+  PluginContext,
+  PluginSpec,
   PromptResult,
   ReadlineMode,
+  RunResult,
+  SummaryRow,
+  TemplateConfig,
+  UITheme,
 } from '../types/index.d.js'
+import ora from 'ora'
+import { join } from 'node:path'
+import { AnswerHistory, isRemembered } from './answer-history.js'
+import { attributeName, Command } from './mini-commander.js'
+import { CommanderError, ErrorFactory, getExitCode } from '../errors/index.js'
+import { loadAnswersFile } from '../utils/answers.js'
+import { diffLines } from '../utils/diff.js'
+import { fuzzyFilter } from '../utils/fuzzy.js'
+import {
+  detectPackageManager,
+  getInstallCommand,
+  getRunCommand,
+  isPackageManager,
+  packageManagers,
+} from '../utils/package-manager.js'
+import { isSecretPrompt, REDACTED, redactAnswers } from '../utils/redact.js'
+import { themes } from '../utils/themes.js'
 import { ProjectGenerator } from './project-generator.js'
-import { ReadlineManager } from './readline-manager.js'
+import { cliRoot, loadPlugin, pluginSpecName } from '../plugins/plugin-loader.js'
+import { PluginManager } from '../plugins/plugin-manager.js'
+import { NavigateBack, ReadlineManager } from './readline-manager.js'
 import { UIManager } from './ui-manager.js'
 import { ValidationManager } from './validation-manager.js'
 
@@ -37,19 +68,37 @@ export class CLIBuilder {
   private projectGenerator: ProjectGenerator
   private uiManager: UIManager
   private validationManager: ValidationManager
+  private answerHistory: AnswerHistory
+  private rememberedAnswers: PromptResult = {}
+  private pluginManager: PluginManager
+  private pluginsLoaded?: Promise<void>
+  private pluginStore = new Map<string, unknown>()
+  private ownTemplates: Array<TemplateConfig>
+  private promptOptions = new Set<string>()
   private program: Command
 
   /**
    * Creates a new CLIBuilder instance.
    *
    * @param config - The CLI configuration object
+   * @param streams - Streams that prompts read from and write to, `process.stdin` and
+   * `process.stdout` by default
    */
-  constructor(config: CLIConfig) {
+  constructor(
+    config: CLIConfig,
+    streams: { input?: NodeJS.ReadStream; output?: NodeJS.WriteStream } = {},
+  ) {
     this.config = config
-    this.readlineManager = new ReadlineManager()
-    this.projectGenerator = new ProjectGenerator()
-    this.uiManager = new UIManager(config.theme)
+    this.ownTemplates = config.templates
+    this.readlineManager = new ReadlineManager(streams)
+    this.pluginManager = new PluginManager({ sequential: config.sequentialHooks })
+    this.projectGenerator = new ProjectGenerator({
+      resolveConflict: async conflict => await this.resolveConflict(conflict),
+      pluginManager: this.pluginManager,
+    })
+    this.uiManager = new UIManager(this.resolveTheme(config.theme))
     this.validationManager = new ValidationManager(config.customValidators)
+    this.answerHistory = new AnswerHistory(config.name)
     this.program = new Command()
 
     this.setupCommands()
@@ -72,13 +121,23 @@ export class CLIBuilder {
     // Use synchronous parse so thrown Commander errors are synchronous and can be
     // caught by tests. exitOverride() prevents process.exit.
     try {
-      this.program.parse(argv || process.argv)
+      const result = this.program.parse(argv || process.argv)
+      if (result instanceof Promise) {
+        result.then(
+          value => {
+            process.exitCode = this.exitCodeFor(value)
+          },
+          error => {
+            process.exitCode = this.handleCommandError(error)
+          },
+        )
+      }
     } catch (err: any) {
       // Commander throws a CommanderError when help is displayed. Tests expect
       // help exit to be treated as non-fatal (exit code 0). If the error
       // indicates help was displayed (exitCode 0), swallow it; otherwise rethrow.
       const exitCode = err && (err.exitCode ?? err.code)
-      if (exitCode === 0 || err && err.code === 'commander.helpDisplayed') {
+      if (exitCode === 0 || (err && err.code === 'commander.helpDisplayed')) {
         return
       }
       throw err
@@ -86,7 +145,69 @@ export class CLIBuilder {
   }
 
   /**
-   * Sets up the commander.js commands and options.
+   * Runs the CLI and sets `process.exitCode` instead of exiting, so output is flushed
+   * and the builder can be embedded. Use it as the entry point of a bin script.
+   *
+   * Exit codes: 0 on success or a dry run, 1 when the user aborts or on an unknown
+   * error, and the code from `exitCodes` for each `CLIError` type.
+   *
+   * @param argv - Optional argv array to parse (defaults to process.argv)
+   * @returns The exit code
+   *
+   * @example
+   * ```typescript
+   * await createCLI(config).main();
+   * ```
+   */
+  async main(argv?: string[]): Promise<number> {
+    this.program.exitOverride()
+
+    let exitCode: number
+    try {
+      // Plugin templates should be listed in the help, so install plugins first
+      await this.loadPlugins()
+      exitCode = this.exitCodeFor(await this.program.parse(argv || process.argv))
+    } catch (error) {
+      exitCode = this.handleCommandError(error)
+    }
+
+    process.exitCode = exitCode
+    return exitCode
+  }
+
+  /**
+   * Maps the value returned by a command action to an exit code. Only run results
+   * carry a status; other commands succeed when they do not throw.
+   *
+   * @param value - The value returned by the action
+   * @returns The exit code
+   * @private
+   */
+  private exitCodeFor(value: unknown): number {
+    if (!value || typeof value !== 'object' || !('status' in value)) return 0
+
+    const result = value as RunResult
+    if (result.status === 'error') return getExitCode(result.error)
+    return result.status === 'cancelled' ? 1 : 0
+  }
+
+  /**
+   * Reports an error thrown while parsing or by a command action.
+   * Commander errors (help, version, unknown options) have already been printed.
+   *
+   * @param error - The thrown error
+   * @returns The exit code
+   * @private
+   */
+  private handleCommandError(error: unknown): number {
+    if (!(error instanceof CommanderError)) {
+      this.uiManager.showError(`An error occurred: ${error}`)
+    }
+    return getExitCode(error)
+  }
+
+  /**
+   * Sets up the root command, the built-in subcommands and any user-defined commands.
    *
    * @private
    */
@@ -95,51 +216,489 @@ export class CLIBuilder {
       .name(this.config.name)
       .description(this.config.description)
       .version(this.config.version)
+      .helpFormatter(info => this.formatHelp(info))
 
-    this.program
-      .argument('[project-name]', 'Project name')
+    this.addGenerateOptions(this.program.argument('[project-name]', 'Project name')).action(
+      async (projectName, options) => await this.run(projectName, options),
+    )
+
+    const userCommands = this.config.commands ?? []
+    const isUserDefined = (name: string): boolean => userCommands.some(cmd => cmd.name === name)
+
+    if (!isUserDefined('create')) {
+      this.addGenerateOptions(
+        this.program
+          .command('create', 'Create a new project')
+          .argument('[project-name]', 'Project name'),
+      ).action(async (projectName, options) => await this.run(projectName, options))
+    }
+
+    if (!isUserDefined('list-templates')) {
+      this.program
+        .command('list-templates', 'List the available templates')
+        .alias('ls')
+        .option('--plugin <spec...>', 'Load a plugin from a file or package (repeatable)')
+        .action(options => {
+          // Plugin templates are only known once the plugins are installed
+          if (!this.config.plugins?.length && !options.plugin) return this.listTemplates()
+          return this.loadPlugins(options.plugin).then(() => this.listTemplates())
+        })
+    }
+
+    for (const command of userCommands) {
+      this.registerCommand(this.program, command)
+    }
+  }
+
+  /**
+   * Renders help for any command, listing the templates on commands that accept `--template`.
+   * Uses `config.helpFormatter` when provided, otherwise the themed UIManager renderer.
+   *
+   * @param info - The help information collected by the command
+   * @returns The help text to print
+   * @private
+   */
+  private formatHelp(info: HelpInfo): string {
+    const acceptsTemplate = info.options.some(option => option.flags.includes('--template'))
+    const withTemplates: HelpInfo = acceptsTemplate
+      ? {
+          ...info,
+          templates: this.config.templates.map(t => ({ name: t.name, description: t.description })),
+        }
+      : info
+
+    if (this.config.helpFormatter) {
+      return this.config.helpFormatter(withTemplates, this.uiManager.getTheme())
+    }
+    return this.uiManager.formatHelp(withTemplates)
+  }
+
+  /**
+   * Adds the options shared by every command that generates a project.
+   *
+   * @param command - The command to add the options to
+   * @returns The same command, for chaining
+   * @private
+   */
+  private addGenerateOptions(command: Command): Command {
+    command
       .option('-t, --template <template>', 'Template to use')
       .option('-y, --yes', 'Skip prompts and use defaults')
       .option('--async', 'Use async readline mode')
       .option('--sync', 'Use sync readline mode')
-      .action(async (projectName, options) => {
-        await this.run(projectName, options)
+      .option('--answers <file>', 'Read answers from a JSON or YAML file')
+      .option('--config <file>', 'Alias of --answers')
+      .option('--no-interactive', 'Fail instead of prompting for missing answers')
+      .option('--dry-run', 'Show what would be generated without writing anything')
+      .option('-f, --force', 'Overwrite existing files in the target directory')
+      .option('--keep-on-failure', 'Keep partially generated files when generation fails')
+      .option('--no-history', 'Do not use or remember answers from previous runs')
+      .option('--plugin <spec...>', 'Load a plugin from a file or package (repeatable)')
+      .option(
+        '--package-manager <name>',
+        `Package manager to install with (${packageManagers.join(', ')})`,
+      )
+
+    for (const prompt of this.config.prompts) {
+      this.addPromptOption(command, prompt)
+    }
+
+    return command
+  }
+
+  /**
+   * Exposes a prompt as a `--<prompt-name>` option so it can be answered from argv.
+   * Prompts with `flag: false`, or whose flag is already taken, are skipped.
+   *
+   * @param command - The command to add the option to
+   * @param prompt - The prompt configuration
+   * @private
+   */
+  private addPromptOption(command: Command, prompt: PromptConfig): void {
+    const flag = this.promptFlag(prompt)
+    if (!this.hasPromptFlag(prompt) || command.hasOption(flag)) {
+      return
+    }
+    this.promptOptions.add(prompt.name)
+
+    const alias = prompt.alias && !command.hasOption(prompt.alias) ? `-${prompt.alias}, ` : ''
+    const choices = Array.isArray(prompt.choices)
+      ? ` (${prompt.choices.map(c => String(c.value)).join(', ')})`
+      : ''
+
+    switch (prompt.type) {
+      case 'confirm':
+        command.option(`${alias}--${flag}`, prompt.message)
+        command.option(`--no-${flag}`, `Answer no to: ${prompt.message}`)
+        break
+      case 'multiselect':
+        command.option(`${alias}--${flag} <values>`, `${prompt.message}, comma-separated${choices}`)
+        break
+      case 'number': {
+        const range =
+          prompt.min !== undefined || prompt.max !== undefined
+            ? ` (${prompt.min ?? ''}..${prompt.max ?? ''})`
+            : ''
+        command.option(`${alias}--${flag} <number>`, `${prompt.message}${range}`)
+        break
+      }
+      default:
+        command.option(`${alias}--${flag} <value>`, `${prompt.message}${choices}`)
+    }
+  }
+
+  /**
+   * Whether a prompt is exposed as a command line option. Secrets typed on the
+   * command line end up in the shell history, so password prompts have to opt in.
+   *
+   * @param prompt - The prompt configuration
+   * @returns True when the prompt gets a `--<name>` option
+   * @private
+   */
+  private hasPromptFlag(prompt: PromptConfig): boolean {
+    return prompt.type === 'password' ? prompt.flag === true : prompt.flag !== false
+  }
+
+  /**
+   * Returns the kebab-case command line flag of a prompt, e.g. `installDeps` -> `install-deps`.
+   *
+   * @param prompt - The prompt configuration
+   * @returns The flag name without leading dashes
+   * @private
+   */
+  private promptFlag(prompt: PromptConfig): string {
+    return prompt.name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+  }
+
+  /**
+   * Collects prompt answers given as command line options, coerced to the prompt's type.
+   * Only prompts that got their own option are read, so a prompt named like a built-in
+   * option (e.g. `force`) is not answered by that option.
+   *
+   * @param options - Parsed command line options
+   * @returns The answers keyed by prompt name
+   * @private
+   */
+  private answersFromOptions(options: Record<string, unknown>): PromptResult {
+    const result: PromptResult = {}
+
+    for (const prompt of this.config.prompts) {
+      if (!this.promptOptions.has(prompt.name)) continue
+      const raw = options[attributeName(this.promptFlag(prompt))]
+      if (raw === undefined) continue
+      result[prompt.name] = this.coerceOptionValue(prompt, raw)
+    }
+
+    return result
+  }
+
+  /**
+   * Converts a raw option value into the type expected by the prompt.
+   * Confirm prompts become booleans, number prompts numbers, multiselect values
+   * are split on commas and select values are matched against the choice values or names.
+   *
+   * @param prompt - The prompt configuration
+   * @param raw - The raw value from argv
+   * @returns The coerced value
+   * @private
+   */
+  private coerceOptionValue(prompt: PromptConfig, raw: unknown): unknown {
+    const toChoiceValue = (item: string): unknown => {
+      const choices = Array.isArray(prompt.choices) ? prompt.choices : []
+      const choice = choices.find(c => String(c.value) === item || c.name === item)
+      return choice ? choice.value : item
+    }
+
+    switch (prompt.type) {
+      case 'confirm':
+        if (typeof raw === 'boolean') return raw
+        return ['y', 'yes', 'true', '1'].includes(String(raw).toLowerCase())
+      case 'multiselect':
+        return String(raw)
+          .split(',')
+          .map(item => item.trim())
+          .filter(Boolean)
+          .map(toChoiceValue)
+      case 'select':
+      case 'autocomplete':
+        return toChoiceValue(String(raw))
+      case 'number': {
+        // Invalid numbers stay strings so validation reports them
+        const number = Number(raw)
+        return String(raw).trim() !== '' && Number.isFinite(number) ? number : raw
+      }
+      default:
+        return raw
+    }
+  }
+
+  /**
+   * Registers a user-defined command, and its nested commands, on a parent command.
+   *
+   * @param parent - The command to attach the new command to
+   * @param config - The command configuration
+   * @private
+   */
+  private registerCommand(parent: Command, config: CommandConfig): void {
+    const command = parent.command(config.name, config.description)
+
+    config.aliases?.forEach(alias => command.alias(alias))
+
+    for (const arg of config.arguments ?? []) {
+      const name = arg.variadic ? `${arg.name}...` : arg.name
+      command.argument(arg.required ? `<${name}>` : `[${name}]`, arg.description)
+    }
+
+    for (const option of config.options ?? []) {
+      command.option(option.flags, option.description, option.default)
+    }
+
+    for (const sub of config.commands ?? []) {
+      this.registerCommand(command, sub)
+    }
+
+    const action = config.action
+    if (action) {
+      command.action(async (...params: Array<any>) => {
+        const argDefs = config.arguments ?? []
+        const args: Record<string, unknown> = {}
+        argDefs.forEach((arg, index) => {
+          args[arg.name] = params[index]
+        })
+        await action(args, params[argDefs.length] ?? {})
+      })
+    }
+  }
+
+  /**
+   * Installs the plugins from `config.plugins` once, then any further `specs` (from
+   * `--plugin`), and merges their templates, validators and themes into the active
+   * configuration. Templates and validators of the CLI itself take precedence over
+   * those of plugins.
+   *
+   * Configured plugins are resolved from `config.root`, or the CLI's own package (see
+   * `cliRoot()`), and are reported and skipped when they fail to load or install.
+   * Plugins from the command line are resolved from the working directory and must load.
+   *
+   * @param specs - Additional plugins, e.g. paths or package names given on the command line
+   * @throws {PluginError} When a plugin from `specs` fails to load or install, or the
+   * plugins cannot be ordered, see `PluginManager.resolveOrder()`
+   * @throws {ConfigurationError} When `config.theme` names a theme that does not exist
+   * @private
+   */
+  private loadPlugins(specs: Array<PluginSpec> = []): Promise<void> {
+    this.pluginsLoaded ??= this.installPlugins(this.config.plugins ?? [], {
+      root: this.config.root,
+    })
+    if (specs.length > 0) {
+      this.pluginsLoaded = this.pluginsLoaded.then(() =>
+        this.installPlugins(specs, { root: process.cwd(), required: true }),
+      )
+    }
+    return this.pluginsLoaded
+  }
+
+  /**
+   * Loads and installs plugins, then merges all installed plugins into the configuration.
+   *
+   * @param specs - The plugins to install
+   * @param options - `root` to resolve paths and package names from, `cliRoot()` by
+   * default, and `required` to fail instead of warning when a plugin cannot be installed
+   * @private
+   */
+  private async installPlugins(
+    specs: Array<PluginSpec>,
+    options: { root?: string; required?: boolean },
+  ): Promise<void> {
+    const root = options.root ?? (await cliRoot())
+    for (const spec of specs) {
+      // Log messages are prefixed with the spec until the plugin's own name is known
+      const label = { name: pluginSpecName(spec) }
+      try {
+        const plugin = await loadPlugin(spec, root, this.pluginContext(label))
+        label.name = plugin.name
+        await this.pluginManager.install(plugin)
+      } catch (error) {
+        if (options.required) throw error
+        this.uiManager.showWarning(
+          `Failed to install plugin '${pluginSpecName(spec)}': ${error instanceof Error ? error.message : error}`,
+        )
+      }
+    }
+    // Fail early on missing dependencies or conflicting order constraints
+    this.pluginManager.resolveOrder()
+
+    this.config = {
+      ...this.config,
+      templates: [...this.ownTemplates, ...this.pluginManager.getAllTemplates()],
+    }
+    this.validationManager = new ValidationManager({
+      ...this.pluginManager.getAllValidators(),
+      ...this.config.customValidators,
+    })
+
+    const theme = this.resolveTheme(this.config.theme)
+    if (typeof this.config.theme === 'string' && !theme) {
+      throw ErrorFactory.configuration(`Unknown theme '${this.config.theme}'`, {
+        operation: 'loadPlugins',
+        additionalInfo: { themes: Object.keys(this.availableThemes()) },
       })
+    }
+    if (theme) this.uiManager.setTheme(theme)
+  }
+
+  /**
+   * Creates the context passed to plugin factories. All plugins share the services
+   * and the store; only the logger is their own.
+   *
+   * @param label - The name to prefix log messages with; may change once the plugin is loaded
+   * @returns The plugin context
+   * @private
+   */
+  private pluginContext(label: { name: string }): PluginContext {
+    const prefix = (message: string): string => `[${label.name}] ${message}`
+    return {
+      ui: this.uiManager,
+      logger: {
+        info: message => this.uiManager.showInfo(prefix(message)),
+        success: message => this.uiManager.showSuccess(prefix(message)),
+        warn: message => this.uiManager.showWarning(prefix(message)),
+        error: message => this.uiManager.showError(prefix(message)),
+      },
+      readline: this.readlineManager,
+      generator: this.projectGenerator,
+      store: this.pluginStore,
+    }
+  }
+
+  /**
+   * Returns the built-in themes together with the themes of installed plugins.
+   *
+   * @returns The themes by name
+   * @private
+   */
+  private availableThemes(): Record<string, UITheme> {
+    return { ...themes, ...this.pluginManager.getAllThemes() }
   }
 
   /**
-   * Runs the CLI with the provided project name and options.
+   * Resolves `config.theme`, looking names up in `availableThemes()`.
+   *
+   * @param theme - A theme or a theme name
+   * @returns The theme, or undefined when none is set or the name is unknown
+   * @private
+   */
+  private resolveTheme(theme: UITheme | string | undefined): UITheme | undefined {
+    return typeof theme === 'string' ? this.availableThemes()[theme] : theme
+  }
+
+  /**
+   * Prints the templates available to this CLI.
+   *
+   * @private
+   */
+  private listTemplates(): void {
+    this.uiManager.showInfo('Available templates:')
+    for (const template of this.config.templates) {
+      console.log(white(`  ${template.name}`) + gray(` - ${template.description}`))
+    }
+  }
+
+  /**
+   * Runs the CLI with the provided project name and options. Errors are shown and
+   * returned rather than thrown, and the process is never exited; see `main()`.
    *
    * @param projectName - Optional project name
    * @param options - Command line options
-   * @throws {Error} When validation fails or project generation fails
+   * @returns The outcome, with the answers (secrets redacted) and the project directory
    */
-  async run(projectName?: string, options: any = {}): Promise<void> {
+  async run(projectName?: string, options: any = {}): Promise<RunResult> {
+    const outcome = await this.execute(projectName, options)
+    const result = { ...outcome, answers: redactAnswers(outcome.answers, this.config.prompts) }
+    await this.notifyPlugins('onComplete', result)
+    return result
+  }
+
+  /**
+   * Runs the hooks that report the outcome of a run. They are skipped when the plugins
+   * cannot be ordered, since that is then the error being reported.
+   *
+   * @param hookName - `onError` or `onComplete`
+   * @param args - Arguments to pass to the hooks
+   * @private
+   */
+  private async notifyPlugins(
+    hookName: 'onError' | 'onComplete',
+    ...args: unknown[]
+  ): Promise<void> {
+    try {
+      await this.pluginManager.executeHook(hookName, ...args)
+    } catch {
+      // Only thrown by PluginManager.resolveOrder(), which failed loadPlugins() already
+    }
+  }
+
+  /**
+   * Runs the steps of `run()`: prompting, review and generation.
+   *
+   * @param projectName - Optional project name
+   * @param options - Command line options
+   * @returns The outcome, with the answers and the project directory
+   * @private
+   */
+  private async execute(projectName?: string, options: any = {}): Promise<RunResult> {
+    let answers: PromptResult = {}
+
     try {
+      await this.loadPlugins(options.plugin)
       this.uiManager.showWelcome(this.config.name)
 
       // Determine readline mode
       const mode = this.determineReadlineMode(options)
       this.readlineManager.setMode(mode)
 
-      // Collect answers through prompts
-      const answers = await this.collectAnswers(projectName, options)
+      // Collect answers through prompts; plugins may add derived answers
+      answers = await this.collectAnswers(projectName, options)
+      answers = (await this.pluginManager.executeHook('afterAnswers', answers)) as PromptResult
 
       // Validate final answers
       const validation = this.validationManager.validateAnswers(answers)
       if (!validation.valid) {
-        this.uiManager.showError(validation.message || 'Validation failed')
-        process.exit(1)
+        throw ErrorFactory.validation(validation.message || 'Validation failed', {
+          operation: 'run',
+        })
+      }
+
+      // Let the user review the answers before anything is written
+      if (!(await this.reviewAnswers(answers, options))) {
+        this.uiManager.showWarning('Aborted, no files were written')
+        return { status: 'cancelled', answers }
+      }
+
+      // Only show what would be generated
+      if (options.dryRun) {
+        const plan = await this.planProject(answers, options)
+        return { status: 'dry-run', answers, projectPath: plan.projectPath }
       }
 
       // Generate project
-      await this.generateProject(answers)
+      const generatorConfig = await this.generateProject(answers, options)
+
+      await this.rememberAnswers(answers, options)
 
       this.uiManager.showSuccess('Project created successfully!')
-      this.showNextSteps(answers)
+      this.showNextSteps(answers, generatorConfig.packageManager)
+
+      return {
+        status: 'success',
+        answers,
+        projectPath: join(generatorConfig.outputPath, generatorConfig.projectName),
+      }
     } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error))
       this.uiManager.showError(`An error occurred: ${error}`)
-      process.exit(1)
+      await this.notifyPlugins('onError', failure, 'run')
+      return { status: 'error', answers, error: failure }
     }
   }
 
@@ -167,6 +726,7 @@ export class CLIBuilder {
    */
   private async collectAnswers(projectName?: string, options: any = {}): Promise<PromptResult> {
     const answers: PromptResult = {}
+    this.rememberedAnswers = this.usesHistory(options) ? await this.answerHistory.load() : {}
 
     // Add project name if provided
     if (projectName) {
@@ -178,9 +738,22 @@ export class CLIBuilder {
       answers.template = options.template
     }
 
+    // Prompt options given on the command line take precedence over an answers file
+    await this.applyPresetAnswers(this.answersFromOptions(options), answers)
+
+    // Pre-populate answers from an answers file
+    const answersFile = options.answers ?? options.config
+    if (answersFile) {
+      await this.applyPresetAnswers(await loadAnswersFile(answersFile), answers)
+    }
+
     // Skip prompts if --yes flag is used
     if (options.yes) {
-      return this.fillDefaults(answers)
+      return await this.fillDefaults(answers)
+    }
+
+    if (options.interactive === false) {
+      return await this.fillRequiredDefaults(answers)
     }
 
     // Allow mode selection if enabled
@@ -189,23 +762,431 @@ export class CLIBuilder {
       this.readlineManager.setMode(mode)
     }
 
-    // Process each prompt
+    await this.askPrompts(answers)
+    return answers
+  }
+
+  /**
+   * Asks the prompts that are not answered yet, showing a heading whenever a new
+   * group starts. Entering `<` or pressing Escape returns to the previously asked
+   * prompt; `when` conditions are evaluated again on the way forward.
+   *
+   * @param answers - The answers collected so far, updated in place
+   * @private
+   */
+  private async askPrompts(answers: PromptResult): Promise<void> {
+    const prompts = this.config.prompts
+    const groups = [...new Set(prompts.flatMap(prompt => (prompt.group ? [prompt.group] : [])))]
+    const asked: number[] = []
+    let currentGroup: string | undefined
+    let index = 0
+
+    this.readlineManager.setBackNavigation(true)
+    try {
+      while (index < prompts.length) {
+        const prompt = prompts[index]
+
+        // Skip if condition is not met or already answered
+        if ((prompt.when && !(await prompt.when(answers))) || answers[prompt.name] !== undefined) {
+          index++
+          continue
+        }
+
+        if (prompt.group && prompt.group !== currentGroup) {
+          const group = this.config.groups?.find(g => g.name === prompt.group)
+          this.uiManager.showSection(group?.title ?? prompt.group, {
+            step: groups.indexOf(prompt.group) + 1,
+            total: groups.length,
+            description: group?.description,
+          })
+        }
+        currentGroup = prompt.group
+
+        try {
+          answers[prompt.name] = await this.askPrompt(
+            await this.withRememberedDefault(prompt, answers),
+            answers,
+          )
+          asked.push(index)
+          index++
+        } catch (error) {
+          if (!(error instanceof NavigateBack)) throw error
+
+          const previous = asked.pop()
+          if (previous === undefined) {
+            this.uiManager.showWarning('This is the first question')
+            continue
+          }
+          delete answers[prompts[previous].name]
+          index = previous
+        }
+      }
+    } finally {
+      this.readlineManager.setBackNavigation(false)
+    }
+  }
+
+  /**
+   * Asks a single prompt. The plugins' `beforePrompt` hooks may replace the prompt
+   * and their `afterPrompt` hooks may rewrite the transformed answer.
+   *
+   * @param prompt - The prompt configuration
+   * @param answers - Previously collected answers
+   * @returns The answer to store
+   * @private
+   */
+  private async askPrompt(prompt: PromptConfig, answers: PromptResult): Promise<unknown> {
+    const asked = (await this.pluginManager.executeHook(
+      'beforePrompt',
+      prompt,
+      answers,
+    )) as PromptConfig
+    const answer = await this.processPrompt(asked, answers)
+    const value = asked.transform ? await asked.transform(answer) : answer
+    return await this.pluginManager.executeHook('afterPrompt', asked, value, answers)
+  }
+
+  /**
+   * Shows the collected answers as a table and asks whether to continue. The user can
+   * edit a single answer and review again, or abort. Skipped with `--yes` and when
+   * prompting is disabled.
+   *
+   * @param answers - The collected answers, updated in place when edited
+   * @param options - Command line options
+   * @returns True to generate the project, false when the user aborted
+   * @private
+   */
+  private async reviewAnswers(answers: PromptResult, options: any = {}): Promise<boolean> {
+    if (options.yes || options.interactive === false) return true
+
+    for (;;) {
+      this.uiManager.showSummary('Review your answers', this.summarizeAnswers(answers))
+
+      const action = await this.processPrompt(
+        {
+          name: 'review',
+          type: 'select',
+          message: 'Create the project with these answers?',
+          choices: [
+            { name: 'Yes, create the project', value: 'confirm' },
+            { name: 'Edit an answer', value: 'edit' },
+            { name: 'Abort', value: 'abort' },
+          ],
+        },
+        answers,
+      )
+
+      if (action === 'confirm') return true
+      if (action === 'abort') return false
+      await this.editAnswer(answers)
+    }
+  }
+
+  /**
+   * Asks which answer to change and prompts for it again, starting from the current
+   * value. Answers of prompts whose `when` no longer holds are dropped and prompts that
+   * became relevant are asked.
+   *
+   * @param answers - The collected answers, updated in place
+   * @private
+   */
+  private async editAnswer(answers: PromptResult): Promise<void> {
+    const editable = this.config.prompts.filter(prompt => answers[prompt.name] !== undefined)
+    const name = await this.processPrompt(
+      {
+        name: 'edit',
+        type: 'select',
+        message: 'Which answer do you want to change?',
+        choices: editable.map(prompt => ({ name: prompt.message, value: prompt.name })),
+      },
+      answers,
+    )
+
+    const prompt = editable.find(p => p.name === name)!
+    const current = answers[prompt.name]
+    delete answers[prompt.name]
+
+    // Secrets are never offered as a default
+    answers[prompt.name] = await this.askPrompt(
+      isSecretPrompt(prompt) ? prompt : { ...prompt, default: current },
+      answers,
+    )
+
+    for (const other of this.config.prompts) {
+      if (other.when && answers[other.name] !== undefined && !(await other.when(answers))) {
+        delete answers[other.name]
+      }
+    }
+    await this.askPrompts(answers)
+  }
+
+  /**
+   * Builds the rows of the answers table. Secret answers are redacted, select values
+   * are shown by their choice name and multi-line text by its first line.
+   *
+   * @param answers - The collected answers
+   * @returns One row per answer
+   * @private
+   */
+  private summarizeAnswers(answers: PromptResult): SummaryRow[] {
+    const redacted = redactAnswers(answers, this.config.prompts)
+
+    return Object.entries(redacted)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => {
+        const prompt = this.config.prompts.find(p => p.name === name)
+        const choices = Array.isArray(prompt?.choices) ? prompt.choices : []
+        const format = (item: unknown): string => {
+          const choice = choices.find(c => c.value === item)
+          if (choice) return choice.name
+          if (typeof item === 'boolean') return item ? 'yes' : 'no'
+          if (typeof item === 'string') {
+            const [first, ...rest] = item.split(/\r?\n/)
+            return rest.some(line => line.trim()) ? `${first} …` : first
+          }
+          return typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)
+        }
+
+        return {
+          label: name,
+          value: Array.isArray(value) ? value.map(format).join(', ') : format(value),
+        }
+      })
+  }
+
+  /**
+   * Whether answers are read from and saved to the answer history.
+   *
+   * @param options - Command line options
+   * @returns False when disabled by `--no-history` or `CLIConfig.history`
+   * @private
+   */
+  private usesHistory(options: any = {}): boolean {
+    return options.history !== false && this.config.history !== false
+  }
+
+  /**
+   * Uses the answer remembered from a previous run as the prompt's default, as long
+   * as it still passes the prompt's validation (e.g. a removed choice does not).
+   *
+   * @param prompt - The prompt configuration
+   * @param answers - Previously collected answers
+   * @returns The prompt, with the remembered default when there is a valid one
+   * @private
+   */
+  private async withRememberedDefault(
+    prompt: PromptConfig,
+    answers: PromptResult,
+  ): Promise<PromptConfig> {
+    const remembered = this.rememberedAnswers[prompt.name]
+    if (remembered === undefined || !isRemembered(prompt)) {
+      return prompt
+    }
+    return (await this.validatePromptValue(prompt, remembered, answers)) === null
+      ? { ...prompt, default: remembered }
+      : prompt
+  }
+
+  /**
+   * Saves the answers to the answer history. Failing to save is reported but does
+   * not fail the run, since the project has already been generated.
+   *
+   * @param answers - The collected answers
+   * @param options - Command line options
+   * @private
+   */
+  private async rememberAnswers(answers: PromptResult, options: any = {}): Promise<void> {
+    if (!this.usesHistory(options)) return
+
+    try {
+      await this.answerHistory.save(answers, this.config.prompts)
+    } catch (error) {
+      this.uiManager.showWarning(
+        `Could not save answers to ${this.answerHistory.filePath}: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+  }
+
+  /**
+   * Merges answers given ahead of prompting (command line options or an answers file)
+   * into the collected answers. Values for known prompts go through the prompt's
+   * `validate` and `transform`; answers that are already set take precedence.
+   *
+   * @param preset - Answers keyed by prompt name
+   * @param answers - The answers collected so far, updated in place
+   * @throws {ValidationError} When a preset value fails validation
+   * @private
+   */
+  private async applyPresetAnswers(preset: PromptResult, answers: PromptResult): Promise<void> {
+    const promptNames = new Set(this.config.prompts.map(prompt => prompt.name))
+
+    // Values that do not belong to a prompt (e.g. projectName, template) are taken as-is
+    for (const [key, value] of Object.entries(preset)) {
+      if (!promptNames.has(key) && answers[key] === undefined) {
+        answers[key] = value
+      }
+    }
+
     for (const prompt of this.config.prompts) {
-      // Skip if condition is not met
-      if (prompt.when && !prompt.when(answers)) {
+      if (answers[prompt.name] !== undefined || preset[prompt.name] === undefined) {
         continue
       }
-
-      // Skip if already answered
-      if (answers[prompt.name] !== undefined) {
+      if (prompt.when && !(await prompt.when(answers))) {
         continue
       }
 
-      const answer = await this.processPrompt(prompt, answers)
-      answers[prompt.name] = prompt.transform ? prompt.transform(answer) : answer
+      const value = preset[prompt.name]
+      const error = await this.validatePromptValue(prompt, value, answers)
+      if (error !== null) {
+        throw ErrorFactory.validation(`Invalid answer for '${prompt.name}': ${error}`, {
+          operation: 'applyPresetAnswers',
+          additionalInfo: { prompt: prompt.name, value: isSecretPrompt(prompt) ? REDACTED : value },
+        })
+      }
+
+      answers[prompt.name] = prompt.transform ? await prompt.transform(value) : value
+    }
+  }
+
+  /**
+   * Completes answers without prompting, for `--no-interactive` runs.
+   * Unanswered prompts fall back to their default; prompts without one are an error.
+   *
+   * @param answers - The answers collected so far
+   * @returns The completed answers
+   * @throws {ValidationError} When a required prompt has no answer and no default
+   * @private
+   */
+  private async fillRequiredDefaults(answers: PromptResult): Promise<PromptResult> {
+    const result = { ...answers }
+
+    for (const prompt of this.config.prompts) {
+      if (result[prompt.name] !== undefined) continue
+      if (prompt.when && !(await prompt.when(result))) continue
+
+      const fallback = (await this.withRememberedDefault(prompt, result)).default
+      if (fallback === undefined) {
+        throw ErrorFactory.validation(
+          `Missing answer for '${prompt.name}' and prompting is disabled (--no-interactive)`,
+          { operation: 'collectAnswers', additionalInfo: { prompt: prompt.name } },
+        )
+      }
+      result[prompt.name] = fallback
     }
 
-    return answers
+    return result
+  }
+
+  /**
+   * Checks a value against the prompt's choices, number constraints and `validate` rule.
+   * Async `validate` rules can show a spinner while they run.
+   *
+   * @param prompt - The prompt configuration
+   * @param value - The value to check
+   * @param answers - Previously collected answers
+   * @param options - Whether to show a spinner while an async rule runs
+   * @returns `null` when the value is valid, otherwise the error message
+   * @throws {ConfigurationError} When `validate` names a validator that does not exist
+   * @private
+   */
+  private async validatePromptValue(
+    prompt: PromptConfig,
+    value: unknown,
+    answers: PromptResult,
+    options: { spinner?: boolean } = {},
+  ): Promise<string | null> {
+    const hasFixedChoices =
+      prompt.type === 'select' ||
+      prompt.type === 'multiselect' ||
+      (prompt.type === 'autocomplete' && !prompt.source)
+    const choices = hasFixedChoices ? await this.resolveChoices(prompt, answers) : undefined
+    if (choices) {
+      const allowed = choices.map(choice => choice.value)
+      const values = prompt.type === 'multiselect' && Array.isArray(value) ? value : [value]
+      const invalid = values.find(v => !allowed.includes(v))
+      if (invalid !== undefined || (prompt.type === 'multiselect' && !Array.isArray(value))) {
+        return `Expected one of: ${allowed.map(String).join(', ')}`
+      }
+    }
+
+    if (prompt.type === 'number') {
+      const error = this.checkNumber(prompt, value)
+      if (error !== null) return error
+    }
+
+    const rule =
+      typeof prompt.validate === 'string'
+        ? this.validationManager.getValidator(prompt.validate)
+        : prompt.validate
+    if (typeof prompt.validate === 'string' && !rule) {
+      throw ErrorFactory.configuration(
+        `Unknown validator '${prompt.validate}' for prompt '${prompt.name}'`,
+        { operation: 'validatePromptValue', additionalInfo: { prompt: prompt.name } },
+      )
+    }
+
+    if (rule) {
+      let validation = rule.validate(value, answers)
+      if (validation instanceof Promise) {
+        const spinner = options.spinner ? ora('Validating...').start() : undefined
+        try {
+          validation = await validation
+        } finally {
+          spinner?.stop()
+        }
+      }
+      if (validation !== true) {
+        return typeof validation === 'string' ? validation : rule.message || 'Invalid input'
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Returns the choices of a prompt, calling `choices` when it is a function.
+   *
+   * @param prompt - The prompt configuration
+   * @param answers - Previously collected answers
+   * @returns The choices, or undefined when the prompt has none
+   * @private
+   */
+  private async resolveChoices(
+    prompt: PromptConfig,
+    answers: PromptResult,
+  ): Promise<PromptChoice[] | undefined> {
+    return typeof prompt.choices === 'function' ? await prompt.choices(answers) : prompt.choices
+  }
+
+  /**
+   * Checks the answer of a number prompt against `integer`, `min`, `max` and `step`.
+   *
+   * @param prompt - The number prompt configuration
+   * @param value - The value to check
+   * @returns `null` when the value is valid, otherwise the error message
+   * @private
+   */
+  private checkNumber(prompt: PromptConfig, value: unknown): string | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return 'Please enter a number'
+    }
+    if (prompt.integer && !Number.isInteger(value)) {
+      return 'Please enter a whole number'
+    }
+    if (prompt.min !== undefined && value < prompt.min) {
+      return `Must be at least ${prompt.min}`
+    }
+    if (prompt.max !== undefined && value > prompt.max) {
+      return `Must be at most ${prompt.max}`
+    }
+    if (prompt.step !== undefined) {
+      const steps = (value - (prompt.min ?? 0)) / prompt.step
+      // Tolerate floating point noise, e.g. 0.3 with a step of 0.1
+      if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+        return `Must be in steps of ${prompt.step}${prompt.min ? ` from ${prompt.min}` : ''}`
+      }
+    }
+    return null
   }
 
   /**
@@ -242,6 +1223,14 @@ export class CLIBuilder {
         return await this.handleConfirmPrompt(prompt, answers)
       case 'multiselect':
         return await this.handleMultiSelectPrompt(prompt, answers)
+      case 'autocomplete':
+        return await this.handleAutocompletePrompt(prompt, answers)
+      case 'password':
+        return await this.handlePasswordPrompt(prompt, answers)
+      case 'number':
+        return await this.handleNumberPrompt(prompt, answers)
+      case 'editor':
+        return await this.handleEditorPrompt(prompt, answers)
       default:
         throw new Error(`Unsupported prompt type: ${prompt.type}`)
     }
@@ -270,19 +1259,11 @@ export class CLIBuilder {
         value = prompt.default
       }
 
-      if (prompt.validate) {
-        const validation = prompt.validate.validate(value, answers)
-        if (validation === true) {
-          isValid = true
-        } else {
-          this.uiManager.showError(
-            typeof validation === 'string'
-              ? validation
-              : prompt.validate.message || 'Invalid input',
-          )
-        }
-      } else {
+      const error = await this.validatePromptValue(prompt, value, answers, { spinner: true })
+      if (error === null) {
         isValid = true
+      } else {
+        this.uiManager.showError(error)
       }
     }
 
@@ -290,7 +1271,85 @@ export class CLIBuilder {
   }
 
   /**
-   * Handles select-type prompts with multiple choices.
+   * Handles number-type prompts: asks again until the input is a number that
+   * satisfies the prompt's constraints and `validate` rule.
+   *
+   * @param prompt - The number prompt configuration
+   * @param answers - Previously collected answers
+   * @returns Promise resolving to the number
+   * @private
+   */
+  private async handleNumberPrompt(prompt: PromptConfig, answers: PromptResult): Promise<number> {
+    while (true) {
+      const defaultText = prompt.default !== undefined ? ` (${prompt.default})` : ''
+      const input = (
+        await this.readlineManager.question(`${prompt.message}${defaultText}: `)
+      ).trim()
+      const value = input === '' && prompt.default !== undefined ? prompt.default : Number(input)
+
+      const error =
+        input === '' && prompt.default === undefined
+          ? 'Please enter a number'
+          : await this.validatePromptValue(prompt, value, answers, { spinner: true })
+      if (error === null) {
+        return value as number
+      }
+      this.uiManager.showError(error)
+    }
+  }
+
+  /**
+   * Handles editor-type prompts: opens `$VISUAL`/`$EDITOR`, or reads multiple lines
+   * from stdin, and reopens it with the previous text when validation fails.
+   *
+   * @param prompt - The editor prompt configuration
+   * @param answers - Previously collected answers
+   * @returns Promise resolving to the entered text
+   * @private
+   */
+  private async handleEditorPrompt(prompt: PromptConfig, answers: PromptResult): Promise<string> {
+    let text = typeof prompt.default === 'string' ? prompt.default : ''
+
+    while (true) {
+      text = await this.readlineManager.editor(prompt.message, {
+        initial: text,
+        extension: prompt.extension,
+      })
+
+      const error = await this.validatePromptValue(prompt, text, answers, { spinner: true })
+      if (error === null) {
+        return text
+      }
+      this.uiManager.showError(error)
+    }
+  }
+
+  /**
+   * Handles password-type prompts: the input is masked while typing and validated
+   * like an input prompt. Error messages never include the value.
+   *
+   * @param prompt - The password prompt configuration
+   * @param answers - Previously collected answers
+   * @returns Promise resolving to the validated secret
+   * @private
+   */
+  private async handlePasswordPrompt(prompt: PromptConfig, answers: PromptResult): Promise<string> {
+    while (true) {
+      const value = await this.readlineManager.password(`${prompt.message}: `, {
+        mask: prompt.mask,
+      })
+
+      const error = await this.validatePromptValue(prompt, value, answers, { spinner: true })
+      if (error === null) {
+        return value
+      }
+      this.uiManager.showError(error)
+    }
+  }
+
+  /**
+   * Handles select-type prompts with multiple choices. Uses the arrow-key list on a
+   * TTY and falls back to a numbered list otherwise.
    *
    * @param prompt - The select prompt configuration
    * @param answers - Previously collected answers
@@ -299,12 +1358,20 @@ export class CLIBuilder {
    * @private
    */
   private async handleSelectPrompt(prompt: PromptConfig, answers: PromptResult): Promise<any> {
-    if (!prompt.choices) {
+    const choices = await this.resolveChoices(prompt, answers)
+    if (!choices) {
       throw new Error('Select prompt requires choices')
     }
 
+    if (this.readlineManager.isInteractive()) {
+      return await this.readlineManager.select(prompt.message, choices, {
+        theme: this.uiManager.getTheme(),
+        initial: prompt.default,
+      })
+    }
+
     this.uiManager.showInfo(prompt.message)
-    prompt.choices.forEach((choice, index) => {
+    choices.forEach((choice, index) => {
       const description = choice.description ? ` - ${choice.description}` : ''
       console.log(`${index + 1}. ${choice.name}${description}`)
     })
@@ -316,8 +1383,8 @@ export class CLIBuilder {
       const answer = await this.readlineManager.question('\nSelect option: ')
       const index = parseInt(answer) - 1
 
-      if (index >= 0 && index < prompt.choices.length) {
-        selectedValue = prompt.choices[index].value
+      if (index >= 0 && index < choices.length) {
+        selectedValue = choices[index].value
         isValid = true
       } else {
         this.uiManager.showError('Invalid selection. Please try again.')
@@ -340,19 +1407,16 @@ export class CLIBuilder {
       prompt.default !== undefined ? ` (${prompt.default ? 'Y/n' : 'y/N'})` : ' (y/N)'
     const answer = await this.readlineManager.question(`${prompt.message}${defaultText}: `)
 
-    console.log({ answers })
-    /**
-     * TODO: Revisar ⬇
-     */
-    if (!answer && prompt.default != null) {
-      prompt.default
+    if (!answer.trim() && prompt.default != null) {
+      return Boolean(prompt.default)
     }
 
     return ['y', 'yes', 'true', '1'].includes(answer.toLowerCase())
   }
 
   /**
-   * Handles multiselect-type prompts for selecting multiple options.
+   * Handles multiselect-type prompts for selecting multiple options. Uses the
+   * arrow-key checkbox list on a TTY and falls back to comma-separated numbers otherwise.
    *
    * @param prompt - The multiselect prompt configuration
    * @param answers - Previously collected answers
@@ -364,12 +1428,20 @@ export class CLIBuilder {
     prompt: PromptConfig,
     answers: PromptResult,
   ): Promise<Array<any>> {
-    if (!prompt.choices) {
+    const choices = await this.resolveChoices(prompt, answers)
+    if (!choices) {
       throw new Error('MultiSelect prompt requires choices')
     }
 
+    if (this.readlineManager.isInteractive()) {
+      return await this.readlineManager.multiselect(prompt.message, choices, {
+        theme: this.uiManager.getTheme(),
+        initial: prompt.default,
+      })
+    }
+
     this.uiManager.showInfo(`${prompt.message} (comma-separated numbers)`)
-    prompt.choices.forEach((choice, index) => {
+    choices.forEach((choice, index) => {
       const description = choice.description ? ` - ${choice.description}` : ''
       console.log(`${index + 1}. ${choice.name}${description}`)
     })
@@ -378,8 +1450,66 @@ export class CLIBuilder {
     const indices = answer.split(',').map(s => parseInt(s.trim()) - 1)
 
     return indices
-      .filter(index => index >= 0 && index < prompt.choices!.length)
-      .map(index => prompt.choices![index].value)
+      .filter(index => index >= 0 && index < choices.length)
+      .map(index => choices[index].value)
+  }
+
+  /**
+   * Handles autocomplete-type prompts: the choices, or the results of `source`, are
+   * filtered as the user types. Without a TTY, the typed text is matched and a
+   * numbered list of the matches is shown when it is ambiguous.
+   *
+   * @param prompt - The autocomplete prompt configuration
+   * @param answers - Previously collected answers
+   * @returns Promise resolving to the selected value
+   * @throws {Error} When neither choices nor source are provided
+   * @private
+   */
+  private async handleAutocompletePrompt(
+    prompt: PromptConfig,
+    answers: PromptResult,
+  ): Promise<unknown> {
+    const choices = await this.resolveChoices(prompt, answers)
+    if (!choices && !prompt.source) {
+      throw new Error('Autocomplete prompt requires choices or a source')
+    }
+
+    const source = prompt.source ? (input: string) => prompt.source!(input, answers) : undefined
+
+    if (this.readlineManager.isInteractive()) {
+      return await this.readlineManager.autocomplete(prompt.message, {
+        choices,
+        source,
+        theme: this.uiManager.getTheme(),
+      })
+    }
+
+    while (true) {
+      const input = (await this.readlineManager.question(`${prompt.message}: `)).trim()
+      const matches = source ? await source(input) : fuzzyFilter(input, choices!)
+      const exact = matches.find(
+        choice =>
+          choice.name.toLowerCase() === input.toLowerCase() || String(choice.value) === input,
+      )
+
+      if (exact || matches.length === 1) {
+        return (exact ?? matches[0]).value
+      }
+      if (matches.length === 0) {
+        this.uiManager.showError(`No matches for '${input}'. Please try again.`)
+        continue
+      }
+
+      matches.forEach((choice, index) => {
+        const description = choice.description ? ` - ${choice.description}` : ''
+        console.log(`${index + 1}. ${choice.name}${description}`)
+      })
+      const index = parseInt(await this.readlineManager.question('\nSelect option: ')) - 1
+      if (index >= 0 && index < matches.length) {
+        return matches[index].value
+      }
+      this.uiManager.showError('Invalid selection. Please try again.')
+    }
   }
 
   /**
@@ -389,12 +1519,15 @@ export class CLIBuilder {
    * @returns Complete answers object with defaults
    * @private
    */
-  private fillDefaults(answers: PromptResult): PromptResult {
+  private async fillDefaults(answers: PromptResult): Promise<PromptResult> {
     const result = { ...answers }
 
     for (const prompt of this.config.prompts) {
-      if (result[prompt.name] === undefined && prompt.default !== undefined) {
-        result[prompt.name] = prompt.default
+      if (result[prompt.name] !== undefined) continue
+
+      const fallback = (await this.withRememberedDefault(prompt, result)).default
+      if (fallback !== undefined) {
+        result[prompt.name] = fallback
       }
     }
 
@@ -405,40 +1538,141 @@ export class CLIBuilder {
    * Generates the project using the selected template and answers.
    *
    * @param answers - User answers from prompts
+   * @param options - Command line options
+   * @returns The generator configuration that was used
    * @throws {Error} When template is not found
    * @private
    */
-  private async generateProject(answers: PromptResult): Promise<void> {
+  private async generateProject(
+    answers: PromptResult,
+    options: any = {},
+  ): Promise<GeneratorConfig> {
+    const { template, config } = await this.resolveGeneration(answers, options)
+    await this.projectGenerator.generate(template, config)
+    return config
+  }
+
+  /**
+   * Shows what generating the project would do, without writing anything.
+   *
+   * @param answers - User answers from prompts
+   * @param options - Command line options
+   * @returns The plan that was shown
+   * @throws {Error} When template is not found
+   * @private
+   */
+  private async planProject(answers: PromptResult, options: any = {}): Promise<GenerationPlan> {
+    const { template, config } = await this.resolveGeneration(answers, options)
+    const plan = await this.projectGenerator.plan(template, config)
+    this.uiManager.showPlan(plan)
+    return plan
+  }
+
+  /**
+   * Looks up the selected template and builds the generator configuration.
+   *
+   * @param answers - User answers from prompts
+   * @param options - Command line options
+   * @returns The template and generator configuration
+   * @throws {Error} When template is not found
+   * @throws {ValidationError} When an unsupported package manager is requested
+   * @private
+   */
+  private async resolveGeneration(
+    answers: PromptResult,
+    options: any = {},
+  ): Promise<{
+    template: TemplateConfig
+    config: GeneratorConfig
+  }> {
     const template = this.config.templates.find(t => t.name === answers.template)
     if (!template) {
       throw new Error(`Template '${answers.template}' not found`)
     }
 
+    // --package-manager flag > packageManager answer > template > CLI config > detection
+    const preferred = [
+      options.packageManager,
+      answers.packageManager,
+      template.packageManager,
+      this.config.packageManager,
+    ]
+    const invalid = preferred.find(value => value !== undefined && !isPackageManager(value))
+    if (invalid !== undefined) {
+      throw ErrorFactory.validation(
+        `Unsupported package manager '${invalid}'. Use one of: ${packageManagers.join(', ')}`,
+        { operation: 'resolveGeneration', projectName: answers.projectName as string },
+      )
+    }
+    const packageManager = await detectPackageManager({ preferred, cwd: process.cwd() })
+
     const config = {
       projectName: answers.projectName as string,
       template: answers.template as string,
       answers,
       outputPath: process.cwd(),
+      conflictStrategy: options.force ? 'overwrite' : this.config.conflictStrategy,
+      keepOnFailure: Boolean(options.keepOnFailure),
+      packageManager,
+      // Conflicts are resolved without asking when prompting is disabled
+      interactive: !options.yes && options.interactive !== false,
     } satisfies GeneratorConfig
 
-    await this.projectGenerator.generate(template, config)
+    return { template, config }
+  }
+
+  /**
+   * Asks the user whether to overwrite a file that already exists.
+   * The diff is shown up front for the `merge` strategy, or on request with `d`.
+   * Binary files are only offered overwrite or skip.
+   *
+   * @param conflict - The conflicting file
+   * @returns Whether to overwrite or keep the existing file
+   * @private
+   */
+  private async resolveConflict(conflict: FileConflict): Promise<ConflictResolution> {
+    const showDiff = (): void => {
+      this.uiManager.showDiff(conflict.path, diffLines(conflict.existing, conflict.incoming))
+    }
+
+    if (conflict.strategy === 'merge' && !conflict.binary) {
+      showDiff()
+    }
+
+    const verb =
+      conflict.strategy === 'merge' && !conflict.binary ? 'Apply merged changes to' : 'Overwrite'
+    const choices = conflict.binary ? 'y/N' : 'y/N/d to show diff'
+    while (true) {
+      const answer = (
+        await this.readlineManager.question(`${verb} ${conflict.path}? (${choices}): `)
+      )
+        .trim()
+        .toLowerCase()
+
+      if (answer === 'd' && !conflict.binary) {
+        showDiff()
+        continue
+      }
+      return ['y', 'yes'].includes(answer) ? 'overwrite' : 'skip'
+    }
   }
 
   /**
    * Shows next steps to the user after project generation.
    *
    * @param answers - User answers containing project information
+   * @param packageManager - The package manager used for the project
    * @private
    */
-  private showNextSteps(answers: PromptResult): void {
+  private showNextSteps(answers: PromptResult, packageManager: PackageManager = 'npm'): void {
     this.uiManager.showInfo('\nNext steps:')
     console.log(white(`  cd ${answers.projectName}`))
 
     if (!this.config.skipInstall) {
-      console.log(white('  npm install'))
+      console.log(white(`  ${getInstallCommand(packageManager)}`))
     }
 
-    console.log(white('  npm run dev'))
+    console.log(white(`  ${getRunCommand(packageManager, 'dev')}`))
     console.log(gray('\nHappy coding! 🚀\n'))
   }
 
@@ -0,0 +1,109 @@
+import { mkdir, readFile, rm, writeFile as fsWriteFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { copyFile, pathExists, writeFile } from '../utils/fs.js'
+
+/**
+ * Records every directory and file created during a project generation so the
+ * changes can be undone if a later step fails. Files that existed before are
+ * backed up the first time they are overwritten and restored on rollback.
+ *
+ * @example
+ * ```typescript
+ * const transaction = new GenerationTransaction();
+ * try {
+ *   await transaction.ensureDir(projectPath);
+ *   await transaction.writeFile(join(projectPath, 'index.js'), source);
+ * } catch (error) {
+ *   await transaction.rollback();
+ *   throw error;
+ * }
+ * ```
+ */
+export class GenerationTransaction {
+  private createdDirs: string[] = []
+  private createdFiles = new Set<string>()
+  private backups = new Map<string, Buffer>()
+
+  /**
+   * Creates a directory and any missing parents, remembering the top-most one created.
+   *
+   * @param dirPath - The directory path to ensure exists
+   */
+  async ensureDir(dirPath: string): Promise<void> {
+    const created = await mkdir(dirPath, { recursive: true })
+    if (created) {
+      this.createdDirs.push(created)
+    }
+  }
+
+  /**
+   * Writes a file, backing up its previous contents if it existed before this transaction.
+   *
+   * @param filePath - The file path to write to
+   * @param data - The data to write
+   */
+  async writeFile(filePath: string, data: string): Promise<void> {
+    await this.record(filePath)
+    await writeFile(filePath, data)
+  }
+
+  /**
+   * Streams a file into place, backing up the previous contents like `writeFile()`.
+   *
+   * @param source - The file to copy
+   * @param filePath - The destination path
+   */
+  async copyFile(source: string, filePath: string): Promise<void> {
+    await this.record(filePath)
+    await copyFile(source, filePath)
+  }
+
+  /**
+   * Whether the file was already written during this transaction.
+   *
+   * @param filePath - The file path to check
+   * @returns True when `writeFile()` was called for the path
+   */
+  hasWritten(filePath: string): boolean {
+    return this.createdFiles.has(filePath) || this.backups.has(filePath)
+  }
+
+  /**
+   * Undoes the recorded changes: restores overwritten files, then removes created
+   * files and directories (including anything written into them by other tools).
+   */
+  async rollback(): Promise<void> {
+    for (const [filePath, contents] of this.backups) {
+      await fsWriteFile(filePath, contents)
+    }
+
+    for (const filePath of this.createdFiles) {
+      await rm(filePath, { force: true })
+    }
+
+    for (const dirPath of [...this.createdDirs].reverse()) {
+      await rm(dirPath, { recursive: true, force: true })
+    }
+
+    this.backups.clear()
+    this.createdFiles.clear()
+    this.createdDirs = []
+  }
+
+  /**
+   * Backs up or records a file before its first write and creates its directory.
+   *
+   * @param filePath - The file about to be written
+   */
+  private async record(filePath: string): Promise<void> {
+    if (!this.hasWritten(filePath)) {
+      if (await pathExists(filePath)) {
+        this.backups.set(filePath, await readFile(filePath))
+      } else {
+        this.createdFiles.add(filePath)
+      }
+    }
+
+    await this.ensureDir(dirname(filePath))
+  }
+}
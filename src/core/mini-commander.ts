@@ -1,14 +1,108 @@
-import {  CommanderError } from '~/errors'
+import { CommanderError } from '../errors/index.js'
+import type { HelpInfo } from '../types/index.d.js'
 
 export type ActionFn = (...args: any[]) => any
+export type HelpFormatterFn = (info: HelpInfo) => string
+
+interface ArgumentDefinition {
+  name: string
+  description?: string
+  required: boolean
+  variadic: boolean
+}
+
+interface OptionDefinition {
+  flags: string
+  description?: string
+  arg?: string
+  short?: string
+  long?: string
+  negate: boolean
+  /** Whether the option may be given more than once, collecting its values in an array */
+  repeatable: boolean
+  defaultValue?: unknown
+}
+
+/**
+ * Converts a long flag name such as `dry-run` into its attribute name (`dryRun`).
+ *
+ * @param flag - The flag name without leading dashes
+ * @returns The camelCased attribute name
+ */
+export function attributeName(flag: string): string {
+  return flag.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+}
+
+export interface HelpStyle {
+  heading: (text: string) => string
+  term: (text: string) => string
+  description: (text: string) => string
+}
+
+const plainStyle: HelpStyle = {
+  heading: text => text,
+  term: text => text,
+  description: text => text,
+}
+
+/**
+ * Renders help information as aligned text, plain unless a style is given.
+ *
+ * @param info - The help information of a command
+ * @param style - Optional functions used to decorate headings, terms and descriptions
+ * @returns The help text
+ */
+export function formatHelp(info: HelpInfo, style: HelpStyle = plainStyle): string {
+  const rows = (items: Array<[string, string | undefined]>): string[] => {
+    const width = Math.max(...items.map(([term]) => term.length))
+    return items.map(([term, desc]) =>
+      `  ${style.term(term.padEnd(width))}  ${desc ? style.description(desc) : ''}`.trimEnd(),
+    )
+  }
+  const section = (title: string, items: Array<[string, string | undefined]>): string[] =>
+    items.length > 0 ? ['', style.heading(title), ...rows(items)] : []
+
+  const lines = [`${style.heading('Usage:')} ${info.usage}`]
+  if (info.description) lines.push('', info.description)
+
+  lines.push(
+    ...section(
+      'Arguments:',
+      info.arguments.map(a => [a.name, a.description]),
+    ),
+    ...section(
+      'Options:',
+      info.options.map(o => [
+        o.flags,
+        o.defaultValue !== undefined
+          ? `${o.description ?? ''} (default: ${JSON.stringify(o.defaultValue)})`
+          : o.description,
+      ]),
+    ),
+    ...section(
+      'Commands:',
+      info.commands.map(c => [c.usage, c.description]),
+    ),
+    ...section(
+      'Templates:',
+      (info.templates ?? []).map(t => [t.name, t.description]),
+    ),
+  )
+
+  return `${lines.join('\n')}\n`
+}
 
 export class Command {
   private $name = ''
   private $description = ''
   private $version = ''
-  private argName: string | null = null
-  private options: Array<{ flags: string; description?: string; arg?: string }> = []
+  private $aliases: string[] = []
+  private args: ArgumentDefinition[] = []
+  private options: OptionDefinition[] = []
+  private commands: Command[] = []
+  private parent: Command | null = null
   private actionFn: ActionFn | null = null
+  private formatterFn: HelpFormatterFn | null = null
   private exitOverrideEnabled = false
 
   name(n: string) {
@@ -26,44 +120,197 @@ export class Command {
     return this
   }
 
-  argument(arg: string, _desc?: string) {
-    // Only support a single optional argument like [project-name]
-    const cleaned = arg.replace(/[[\]]/g, '')
-    this.argName = cleaned
+  alias(a: string) {
+    this.$aliases.push(a)
     return this
   }
 
-  option(flags: string, description?: string) {
-    // flags like '-t, --template <template>' or '--async'
+  /**
+   * Registers a subcommand and returns it so it can be configured further.
+   *
+   * @param nameAndArgs - The command name optionally followed by arguments, e.g. `create [name]`
+   * @param description - Optional description of the subcommand
+   * @returns The new subcommand
+   */
+  command(nameAndArgs: string, description?: string): Command {
+    const [name, ...args] = nameAndArgs.trim().split(/\s+/)
+    const cmd = new Command().name(name)
+    cmd.parent = this
+    if (description) cmd.description(description)
+    args.forEach(arg => cmd.argument(arg))
+    if (this.exitOverrideEnabled) cmd.exitOverride()
+    this.commands.push(cmd)
+    return cmd
+  }
+
+  argument(arg: string, description?: string) {
+    // '<name>' is required, '[name]' is optional, a trailing '...' collects the rest
+    const required = arg.startsWith('<')
+    const cleaned = arg.replace(/[[\]<>]/g, '')
+    const variadic = cleaned.endsWith('...')
+    this.args.push({
+      name: variadic ? cleaned.slice(0, -3) : cleaned,
+      description,
+      required,
+      variadic,
+    })
+    return this
+  }
+
+  option(flags: string, description?: string, defaultValue?: unknown) {
+    // flags like '-t, --template <template>' or '--async'; '<value...>' may be repeated
     const match = flags.match(/<([^>]+)>/)
-    const arg = match ? match[1] : undefined
-    this.options.push({ flags, description, arg })
+    const repeatable = match !== null && match[1].endsWith('...')
+    const arg = match ? (repeatable ? match[1].slice(0, -3) : match[1]) : undefined
+    const short = (flags.match(/(?:^|[\s,])-([a-zA-Z0-9])\b/) || [])[1]
+    const long = (flags.match(/--([a-zA-Z0-9-]+)/) || [])[1]
+    // '--no-foo' defines a negatable 'foo' attribute that defaults to true
+    const negate = long !== undefined && long.startsWith('no-')
+    this.options.push({
+      flags,
+      description,
+      arg,
+      short,
+      long: negate ? long.substring(3) : long,
+      negate,
+      repeatable,
+      defaultValue,
+    })
     return this
   }
 
+  /**
+   * Checks whether a long or short flag is already registered on this command.
+   *
+   * @param flag - The flag name without leading dashes, e.g. `template` or `t`
+   * @returns True when an option uses the flag
+   */
+  hasOption(flag: string): boolean {
+    return this.options.some(o => o.long === flag || o.short === flag)
+  }
+
   action(fn: ActionFn) {
     this.actionFn = fn
     return this
   }
 
+  /**
+   * Sets the function used to render help. Subcommands inherit it unless they set their own.
+   *
+   * @param fn - Receives the help information and returns the text to print
+   */
+  helpFormatter(fn: HelpFormatterFn) {
+    this.formatterFn = fn
+    return this
+  }
+
   exitOverride() {
     this.exitOverrideEnabled = true
+    this.commands.forEach(cmd => cmd.exitOverride())
     return this
   }
 
-  private throwExit(exitCode: number, code?: string) {
+  private throwExit(
+    exitCode: number,
+    code?: string,
+    message = 'process.exit unexpectedly called',
+  ): never {
     if (this.exitOverrideEnabled) {
-      throw new CommanderError('process.exit unexpectedly called', exitCode, code)
+      throw new CommanderError(message, exitCode, code)
     }
     process.exit(exitCode)
   }
 
+  /**
+   * Finds a registered subcommand by name or alias.
+   *
+   * @param name - The name or alias to look up
+   * @returns The subcommand if registered, undefined otherwise
+   */
+  findCommand(name: string): Command | undefined {
+    return this.commands.find(cmd => cmd.$name === name || cmd.$aliases.includes(name))
+  }
+
+  /**
+   * Collects the structured help information of this command.
+   *
+   * @returns The usage, arguments, options and subcommands of this command
+   */
+  helpInfo(): HelpInfo {
+    const path: string[] = []
+    for (let cmd: Command | null = this; cmd; cmd = cmd.parent) {
+      path.unshift(cmd.$name)
+    }
+
+    const argUsage = this.args.map(a => {
+      const name = a.variadic ? `${a.name}...` : a.name
+      return a.required ? `<${name}>` : `[${name}]`
+    })
+
+    const options: HelpInfo['options'] = this.options.map(o => ({
+      flags: o.flags,
+      description: o.description,
+      defaultValue: o.defaultValue,
+    }))
+    if (this.$version) {
+      options.push({ flags: '-V, --version', description: 'Output the version number' })
+    }
+    options.push({ flags: '-h, --help', description: 'Display help for command' })
+
+    return {
+      name: path.filter(Boolean).join(' '),
+      description: this.$description,
+      version: this.$version || undefined,
+      usage: [
+        ...path.filter(Boolean),
+        '[options]',
+        ...(this.commands.length > 0 ? ['[command]'] : []),
+        ...argUsage,
+      ].join(' '),
+      arguments: this.args.map(a => ({
+        name: a.name,
+        description: a.description,
+        required: a.required,
+        variadic: a.variadic,
+      })),
+      options,
+      commands: this.commands.map(c => ({
+        name: c.$name,
+        aliases: c.$aliases.slice(),
+        description: c.$description,
+        usage: [
+          [c.$name, ...c.$aliases].join('|'),
+          ...c.args.map(a => (a.required ? `<${a.name}>` : `[${a.name}]`)),
+        ].join(' '),
+      })),
+    }
+  }
+
+  /**
+   * Renders the help text of this command using the nearest configured formatter.
+   *
+   * @returns The help text
+   */
+  helpInformation(): string {
+    let formatter: HelpFormatterFn = info => formatHelp(info)
+    for (let cmd: Command | null = this; cmd; cmd = cmd.parent) {
+      if (cmd.formatterFn) {
+        formatter = cmd.formatterFn
+        break
+      }
+    }
+    return formatter(this.helpInfo())
+  }
+
+  /**
+   * Prints the help text of this command to stdout.
+   */
+  outputHelp(): void {
+    process.stdout.write(this.helpInformation())
+  }
+
   parse(argv?: string[]) {
     const args = argv ? argv.slice() : process.argv.slice()
-    // Normalize: if it's full node argv include node+script, remove first two
-    if (args.length > 0 && args[0].endsWith('node')) {
-      // assume node style
-    }
     // Find position where real args start: if argv looks like process.argv, drop first 2
     let start = 0
 
@@ -75,39 +322,162 @@ export class Command {
       start = 2
     }
 
-    const real = args.slice(start)
+    return this.dispatch(args.slice(start))
+  }
+
+  /**
+   * Routes user arguments to the matching subcommand or runs this command's action.
+   *
+   * @param real - The user arguments, without node and script paths
+   * @returns Whatever the action returns
+   */
+  private dispatch(real: string[]): any {
+    const index = this.firstOperandIndex(real)
+    // Options before the subcommand name are passed on to it, e.g. `cli -y create app`
+    const leading = real.slice(0, Math.max(index, 0))
+    const builtIn = ['--help', '-h', '--version', '-V'].some(flag => leading.includes(flag))
+
+    if (index !== -1 && !builtIn && this.commands.length > 0) {
+      const first = real[index]
+      const rest = real.slice(index + 1)
+      const sub = this.findCommand(first)
+      if (sub) {
+        return sub.dispatch([...leading, ...rest])
+      }
+
+      // `help <command>` shows the help of a nested command
+      if (first === 'help') {
+        const target = rest.length > 0 ? this.findCommand(rest[0]) : undefined
+        return (target ?? this).dispatch(['--help'])
+      }
+    }
 
-    // simple help/version handling
-    if (real.includes('--help') || real.includes('-h')) {
-      // simulate help output by throwing with exitCode 0
+    // simple help/version handling; arguments after `--` are operands, never flags
+    const end = real.indexOf('--')
+    const flags = end === -1 ? real : real.slice(0, end)
+    if (flags.includes('--help') || flags.includes('-h')) {
+      this.outputHelp()
       this.throwExit(0, 'commander.helpDisplayed')
     }
 
-    if (real.includes('-V') || real.includes('--version')) {
+    if (this.$version && (flags.includes('-V') || flags.includes('--version'))) {
       console.log(this.$version)
       this.throwExit(0, 'commander.version')
     }
 
-    // parse options and argument
+    const { options, operands } = this.parseOptions(real)
+
+    if (!this.actionFn) {
+      if (operands.length > 0 && this.commands.length > 0) {
+        console.error(`error: unknown command '${operands[0]}'`)
+        this.throwExit(1, 'commander.unknownCommand')
+      }
+      // A command that only groups subcommands shows its help
+      this.outputHelp()
+      this.throwExit(this.commands.length > 0 ? 1 : 0, 'commander.help')
+      return
+    }
+
+    const values = this.args.map((def, index) => {
+      if (def.variadic) return operands.slice(index)
+      return operands[index]
+    })
+
+    const missing = this.args.find(
+      (def, index) =>
+        def.required && (def.variadic ? !operands[index] : values[index] === undefined),
+    )
+    if (missing) {
+      console.error(`error: missing required argument '${missing.name}'`)
+      this.throwExit(1, 'commander.missingArgument')
+    }
+
+    // Call action with (...args, options, command)
+    return this.actionFn(...values, options, this)
+  }
+
+  /**
+   * Finds the first positional argument, skipping options and the values of the
+   * options of this command that take one.
+   *
+   * @param real - The user arguments for this command
+   * @returns The index of the first operand, or -1 when there is none before `--`
+   */
+  private firstOperandIndex(real: string[]): number {
+    for (let i = 0; i < real.length; i++) {
+      const token = real[i]
+      if (token === '--') return -1
+      if (!token.startsWith('-') || token === '-') return i
+      if (token.includes('=')) continue
+
+      const def = token.startsWith('--')
+        ? this.options.find(o => o.long === token.substring(2) && !o.negate)
+        : token.length === 2
+          ? this.options.find(o => o.short === token[1] && !o.negate)
+          : undefined
+      if (def?.arg) i++
+    }
+    return -1
+  }
+
+  /**
+   * Splits user arguments into parsed options and positional operands.
+   *
+   * @param real - The user arguments for this command
+   * @returns The parsed options and remaining operands
+   */
+  private parseOptions(real: string[]): { options: Record<string, any>; operands: string[] } {
     const options: Record<string, any> = {}
-    const nonOptionArgs: string[] = []
+    const operands: string[] = []
+
+    for (const def of this.options) {
+      if (!def.long) continue
+      const key = attributeName(def.long)
+      if (def.defaultValue !== undefined) {
+        options[key] = def.defaultValue
+      } else if (def.negate && !this.options.some(o => o.long === def.long && !o.negate)) {
+        options[key] = true
+      }
+    }
+
+    // Repeatable options collect one value per occurrence, e.g. `--plugin a --plugin b`
+    const assign = (def: OptionDefinition | undefined, key: string, value: unknown): void => {
+      options[key] = def?.repeatable ? [...(options[key] ?? []), value] : value
+    }
+    // The value of an option that takes one is the next argument, which must exist
+    const valueAfter = (def: OptionDefinition, i: number): string => {
+      const value = real[i + 1]
+      if (value === undefined || value === '--') {
+        const message = `error: option '${def.flags}' argument missing`
+        console.error(message)
+        this.throwExit(1, 'commander.optionMissingArgument', message)
+      }
+      return value
+    }
 
     for (let i = 0; i < real.length; i++) {
       const token = real[i]
+      if (token === '--') {
+        operands.push(...real.slice(i + 1))
+        break
+      }
       if (token.startsWith('--')) {
         const eq = token.indexOf('=')
         if (eq !== -1) {
           const key = token.substring(2, eq)
-          options[key] = token.substring(eq + 1)
+          const optDef = this.options.find(o => o.long === key && !o.negate)
+          assign(optDef, attributeName(key), token.substring(eq + 1))
         } else {
           const key = token.substring(2)
           // see if option expects a value
-          const optDef = this.options.find((o) => o.flags.includes(`--${key}`))
-          if (optDef && optDef.arg) {
-            options[key] = real[i + 1]
+          const optDef = this.options.find(o => o.long === key && !o.negate)
+          if (key.startsWith('no-') && !optDef) {
+            options[attributeName(key.substring(3))] = false
+          } else if (optDef && optDef.arg) {
+            assign(optDef, attributeName(key), valueAfter(optDef, i))
             i++
           } else {
-            options[key] = true
+            options[attributeName(key)] = true
           }
         }
       } else if (token.startsWith('-') && token.length > 1) {
@@ -115,32 +485,27 @@ export class Command {
         // support only single-letter options possibly with value like -t value
         if (letters.length === 1) {
           const letter = letters[0]
-          const optDef = this.options.find((o) => o.flags.includes(`-${letter}`))
+          const optDef = this.options.find(o => o.short === letter && !o.negate)
+          const key = attributeName(optDef?.long || letter)
           if (optDef && optDef.arg) {
-            const long = (optDef.flags.match(/--([a-zA-Z0-9-]+)/) || [])[1]
-            options[long || letter] = real[i + 1]
+            assign(optDef, key, valueAfter(optDef, i))
             i++
           } else {
-            const long = (this.options.find((o) => o.flags.includes(`-${letter}`))?.flags.match(/--([a-zA-Z0-9-]+)/) || [])[1]
-            options[long || letter] = true
+            options[key] = true
           }
         } else {
           // combined flags like -xy -> set each true
           for (const l of letters) {
-            options[l] = true
+            const optDef = this.options.find(o => o.short === l)
+            options[attributeName(optDef?.long || l)] = true
           }
         }
       } else {
-        nonOptionArgs.push(token)
+        operands.push(token)
       }
     }
 
-    const projectName = nonOptionArgs.length > 0 ? nonOptionArgs[0] : undefined
-
-    if (this.actionFn) {
-      // Call action with (projectName, options)
-      return this.actionFn(projectName, options)
-    }
+    return { options, operands }
   }
 }
 
@@ -1,20 +1,45 @@
 // Avoid importing specific colors from picocolors in this module to keep
 // examples runnable in different environments. Use plain messages instead.
-import { ensureDir, writeFile, writeJson } from '../utils/fs.js'
+import { isEmptyDir, pathExists, readFile } from '../utils/fs.js'
 import { exec } from 'node:child_process'
-import { dirname, join } from 'node:path'
+import { stat } from 'node:fs/promises'
+import { join } from 'node:path'
 import { promisify } from 'node:util'
-import ora from 'ora'
-import { ErrorFactory } from '../errors/index.js'
-import type { GeneratorConfig, TemplateConfig } from '../types/index.d.js'
+import ora, { type Ora } from 'ora'
+import { CLIError, ErrorFactory } from '../errors/index.js'
+import type {
+  ConflictResolution,
+  FileConflict,
+  GenerationPlan,
+  GeneratorConfig,
+  PackageManager,
+  PlannedFile,
+  ProjectGeneratorOptions,
+  TemplateConfig,
+} from '../types/index.d.js'
+import { mergeContents } from '../utils/diff.js'
+import { getInstallCommand } from '../utils/package-manager.js'
+import { renderTemplate } from '../utils/template-engine.js'
+import { GenerationTransaction } from './generation-transaction.js'
 
 const execAsync = promisify(exec)
 
+/** A template file after conditions and path rendering */
+type ResolvedFile =
+  | { path: string; content: string }
+  | { path: string; source: string; render?: (text: string) => string }
+
 /**
  * Generates projects from templates with file creation and dependency management.
  * Handles the complete project generation lifecycle including file creation,
  * package.json generation, and dependency installation.
  *
+ * Files that already exist on disk are handled by `config.conflictStrategy`
+ * (`abort` by default, which refuses to generate into a non-empty directory).
+ * Generation is transactional: if any step fails, the directories and files it
+ * created are removed and overwritten files are restored, unless
+ * `config.keepOnFailure` is set.
+ *
  * @example
  * ```typescript
  * const generator = new ProjectGenerator();
@@ -27,20 +52,45 @@ const execAsync = promisify(exec)
  * ```
  */
 export class ProjectGenerator {
+  private options: ProjectGeneratorOptions
+  private transaction = new GenerationTransaction()
+  /** The project being written by `generate()`, for `writeFile()` */
+  private current?: { projectPath: string; config: GeneratorConfig }
+
+  /**
+   * Creates a new ProjectGenerator instance.
+   *
+   * @param options - Optional callbacks, e.g. to resolve file conflicts interactively, and plugins
+   */
+  constructor(options: ProjectGeneratorOptions = {}) {
+    this.options = options
+  }
+
   /**
    * Generates a complete project from a template configuration.
+   * Runs the `beforeGenerate`, `afterGenerate`, `beforeInstall` and `afterInstall`
+   * hooks of `options.pluginManager`. Errors that are already a `CLIError` keep their
+   * type (and exit code); any other failure is reported as a `FileSystemError`.
    *
    * @param template - The template configuration to use
    * @param config - The generator configuration with project details
-   * @throws {FileSystemError} When file operations fail
+   * @throws {FileSystemError} When file operations fail or the target directory is not empty
    * @throws {DependencyError} When dependency installation fails
    */
   async generate(template: TemplateConfig, config: GeneratorConfig): Promise<void> {
     const projectPath = join(config.outputPath, config.projectName)
+    const transaction = new GenerationTransaction()
+    const plugins = this.options.pluginManager
+    this.transaction = transaction
+
+    await plugins?.executeHook('beforeGenerate', config)
+    await this.checkTarget(projectPath, config)
 
     try {
+      this.current = { projectPath, config }
+
       // Create project directory
-      await ensureDir(projectPath)
+      await transaction.ensureDir(projectPath)
 
       // Generate files
       await this.generateFiles(template, config, projectPath)
@@ -48,9 +98,13 @@ export class ProjectGenerator {
       // Generate package.json
       await this.generatePackageJson(template, config, projectPath)
 
+      await plugins?.executeHook('afterGenerate', config, projectPath)
+
       // Install dependencies only if template has dependencies AND user wants them installed
-      if (template.dependencies && config.answers.installDeps !== false) {
-        await this.installDependencies(projectPath)
+      if (this.shouldInstall(template, config)) {
+        await plugins?.executeHook('beforeInstall', projectPath)
+        await this.installDependencies(projectPath, config.packageManager ?? 'npm')
+        await plugins?.executeHook('afterInstall', projectPath)
       }
 
       // Run post-install hook
@@ -58,7 +112,10 @@ export class ProjectGenerator {
         await template.postInstall(projectPath, config.answers)
       }
     } catch (error) {
-      if (error instanceof Error) {
+      if (!config.keepOnFailure) {
+        await this.rollback(transaction)
+      }
+      if (error instanceof Error && !(error instanceof CLIError)) {
         throw ErrorFactory.filesystem(`Failed to generate project: ${error.message}`, {
           operation: 'generate',
           projectName: config.projectName,
@@ -66,9 +123,228 @@ export class ProjectGenerator {
         })
       }
       throw error
+    } finally {
+      this.current = undefined
     }
   }
 
+  /**
+   * Writes an extra file into the project that `generate()` is writing, e.g. from a
+   * plugin's `afterGenerate` hook. Like template files, it passes through the
+   * `beforeWriteFile` hooks and the conflict strategy, and is rolled back when
+   * generation fails.
+   *
+   * @param relativePath - The file path relative to the project directory
+   * @param content - The file contents
+   * @returns False when a plugin or the conflict strategy skipped the file
+   * @throws {FileSystemError} When no project is being generated, or the file exists and
+   * the conflict strategy is `abort`
+   */
+  async writeFile(relativePath: string, content: string): Promise<boolean> {
+    if (!this.current) {
+      throw ErrorFactory.filesystem(
+        `Cannot write '${relativePath}': files can only be added while a project is generated`,
+        { operation: 'writeFile', filePath: relativePath },
+      )
+    }
+
+    const { projectPath, config } = this.current
+    const output = await this.applyWriteHooks(projectPath, relativePath, content)
+    if (output === false) return false
+    return await this.writeProjectFile(projectPath, relativePath, output, config)
+  }
+
+  /**
+   * Computes what `generate()` would do without writing anything. Walks the same file
+   * pipeline (conditions, content functions and `beforeWriteFile` hooks) and applies
+   * the same conflict checks: files vetoed by a plugin or kept by the `skip` strategy
+   * are left out, and existing files are marked with what happens to them.
+   *
+   * @param template - The template configuration to use
+   * @param config - The generator configuration with project details
+   * @returns The files that would be written, the package.json and the install steps
+   * @throws {TemplateError} When a file condition or content function fails
+   * @throws {FileSystemError} When `generate()` would refuse to write into the directory
+   */
+  async plan(template: TemplateConfig, config: GeneratorConfig): Promise<GenerationPlan> {
+    const projectPath = join(config.outputPath, config.projectName)
+    await this.checkTarget(projectPath, config)
+
+    try {
+      const files: PlannedFile[] = []
+      const add = async (relativePath: string, content: string | { source: string }) => {
+        const planned = await this.planFile(projectPath, relativePath, content, config)
+        if (planned) files.push(planned)
+      }
+
+      for (const file of this.resolveFiles(template, config)) {
+        await add(file.path, await this.loadContent(file))
+      }
+      const packageJson = this.buildPackageJson(template, config)
+      await add('package.json', JSON.stringify(packageJson, null, 2))
+
+      return {
+        projectPath,
+        files,
+        packageJson,
+        install: Boolean(this.shouldInstall(template, config)),
+        packageManager: config.packageManager ?? 'npm',
+        postInstall: Boolean(template.postInstall),
+      }
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof CLIError)) {
+        throw ErrorFactory.template(`Failed to plan project: ${error.message}`, {
+          operation: 'plan',
+          projectName: config.projectName,
+          template: config.template,
+        })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Refuses to generate into a non-empty directory under the `abort` strategy.
+   *
+   * @param projectPath - The project directory path
+   * @param config - The generator configuration
+   * @throws {FileSystemError} When the strategy is `abort` and the directory is not empty
+   * @private
+   */
+  private async checkTarget(projectPath: string, config: GeneratorConfig): Promise<void> {
+    if ((config.conflictStrategy ?? 'abort') === 'abort' && !(await isEmptyDir(projectPath))) {
+      throw ErrorFactory.filesystem(
+        `Directory '${projectPath}' already exists and is not empty. Use --force to overwrite it`,
+        {
+          operation: 'generate',
+          projectName: config.projectName,
+          template: config.template,
+          filePath: projectPath,
+        },
+      )
+    }
+  }
+
+  /**
+   * Plans one file the way `writeProjectFile()` would write it, after the
+   * `beforeWriteFile` hooks, without asking about or writing anything.
+   *
+   * @param projectPath - The project directory path
+   * @param relativePath - The file path relative to the project directory
+   * @param content - The contents produced by the template, or a file to stream into place
+   * @param config - The generator configuration
+   * @returns The planned file, or undefined when it would not be written
+   * @private
+   */
+  private async planFile(
+    projectPath: string,
+    relativePath: string,
+    content: string | { source: string },
+    config: GeneratorConfig,
+  ): Promise<PlannedFile | undefined> {
+    let output = await this.applyWriteHooks(projectPath, relativePath, content)
+    if (output === false) return undefined
+
+    const filePath = join(projectPath, relativePath)
+    let conflict: PlannedFile['conflict']
+    if (await pathExists(filePath)) {
+      const strategy = config.conflictStrategy ?? 'abort'
+      const asks = this.asksAboutConflicts(config)
+      if (strategy === 'skip') return undefined
+      if (strategy === 'prompt-per-file' && config.interactive === false) return undefined
+      if (strategy === 'merge') {
+        // Binary files cannot be merged: kept unless the user is asked
+        if (typeof output !== 'string' && !asks) return undefined
+        if (typeof output === 'string') {
+          const existing = await readFile(filePath)
+          output = mergeContents(relativePath, existing, output)
+          if (output === existing) return undefined
+        }
+      }
+      conflict =
+        strategy === 'prompt-per-file' || (strategy === 'merge' && asks)
+          ? 'prompt'
+          : strategy === 'merge'
+            ? 'merge'
+            : 'overwrite'
+    }
+
+    const size =
+      typeof output === 'string'
+        ? Buffer.byteLength(output, 'utf8')
+        : (await stat(output.source)).size
+    return conflict ? { path: relativePath, size, conflict } : { path: relativePath, size }
+  }
+
+  /**
+   * Runs the template's file pipeline: applies conditions and renders paths and content.
+   * Files backed by a `source` on disk are not read here; see `loadContent()`.
+   *
+   * @param template - The template configuration
+   * @param config - The generator configuration
+   * @returns The files to write, with paths relative to the project directory
+   * @throws {TemplateError} When a file has neither `content` nor `source`
+   * @private
+   */
+  private resolveFiles(template: TemplateConfig, config: GeneratorConfig): ResolvedFile[] {
+    const files: ResolvedFile[] = []
+    const data = { ...config.answers, projectName: config.projectName }
+    const render = (text: string): string => renderTemplate(text, data, template.filters)
+
+    for (const file of template.files) {
+      // Check condition
+      if (file.condition && !file.condition(config.answers)) {
+        continue
+      }
+
+      const path = render(file.path)
+      if (file.content !== undefined) {
+        const content =
+          typeof file.content === 'function' ? file.content(config.answers) : file.content
+        files.push({
+          path,
+          content: typeof file.content === 'string' && !file.raw ? render(content) : content,
+        })
+      } else if (file.source) {
+        files.push({ path, source: file.source, render: file.raw ? undefined : render })
+      } else {
+        throw ErrorFactory.template(`File '${file.path}' has neither content nor source`, {
+          operation: 'resolveFiles',
+          template: template.name,
+        })
+      }
+    }
+
+    return files
+  }
+
+  /**
+   * Loads the contents of a resolved file. Raw files on disk are returned as a
+   * `source` reference so they can be streamed instead of read into memory.
+   *
+   * @param file - The resolved file
+   * @returns The text to write, or the file to copy
+   * @private
+   */
+  private async loadContent(file: ResolvedFile): Promise<string | { source: string }> {
+    if ('content' in file) return file.content
+    if (!file.render) return { source: file.source }
+    return file.render(await readFile(file.source))
+  }
+
+  /**
+   * Whether dependencies should be installed: the template has dependencies and the
+   * user did not opt out.
+   *
+   * @param template - The template configuration
+   * @param config - The generator configuration
+   * @returns True when dependencies should be installed
+   * @private
+   */
+  private shouldInstall(template: TemplateConfig, config: GeneratorConfig): boolean {
+    return Boolean(template.dependencies) && config.answers.installDeps !== false
+  }
+
   /**
    * Generates all project files from the template configuration.
    *
@@ -86,27 +362,41 @@ export class ProjectGenerator {
     const spinner = ora('Generating project files...').start()
 
     try {
-      for (const file of template.files) {
-        // Check condition
-        if (file.condition && !file.condition(config.answers)) {
+      let skipped = 0
+      let vetoed = 0
+      for (const file of this.resolveFiles(template, config)) {
+        const content = await this.applyWriteHooks(
+          projectPath,
+          file.path,
+          await this.loadContent(file),
+        )
+        if (content === false) {
+          vetoed++
           continue
         }
 
-        const filePath = join(projectPath, file.path)
-        const content =
-          typeof file.content === 'function' ? file.content(config.answers) : file.content
-
-        // Ensure directory exists
-        await ensureDir(dirname(filePath))
-
-        // Write file
-        await writeFile(filePath, content)
+        const written = await this.writeProjectFile(
+          projectPath,
+          file.path,
+          content,
+          config,
+          spinner,
+        )
+        if (!written) skipped++
       }
 
-      spinner.succeed('Project files generated')
+      const notes = [
+        ...(skipped > 0 ? [`${skipped} existing files kept`] : []),
+        ...(vetoed > 0 ? [`${vetoed} skipped by plugins`] : []),
+      ]
+      spinner.succeed(
+        notes.length > 0
+          ? `Project files generated (${notes.join(', ')})`
+          : 'Project files generated',
+      )
     } catch (error) {
       spinner.fail('Failed to generate project files')
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof CLIError)) {
         throw ErrorFactory.filesystem(`Failed to generate files: ${error.message}`, {
           operation: 'generateFiles',
           projectName: config.projectName,
@@ -132,19 +422,18 @@ export class ProjectGenerator {
     projectPath: string,
   ): Promise<void> {
     try {
-      const packageJson = {
-        name: config.projectName,
-        version: '0.1.0',
-        private: true,
-        scripts: template.scripts || {},
-        dependencies: template.dependencies?.dependencies || {},
-        devDependencies: template.dependencies?.devDepencies || {},
-        peerDependencies: template.dependencies?.peerDependencies || {},
-      }
+      const packageJson = this.buildPackageJson(template, config)
+      const content = await this.applyWriteHooks(
+        projectPath,
+        'package.json',
+        JSON.stringify(packageJson, null, 2),
+      )
 
-      await writeJson(join(projectPath, 'package.json'), packageJson, { spaces: 2 })
+      if (content !== false) {
+        await this.writeProjectFile(projectPath, 'package.json', content, config)
+      }
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof CLIError)) {
         throw ErrorFactory.filesystem(`Failed to generate package.json: ${error.message}`, {
           operation: 'generatePackageJson',
           projectName: config.projectName,
@@ -156,17 +445,203 @@ export class ProjectGenerator {
   }
 
   /**
-   * Installs project dependencies using npm.
+   * Runs the `beforeWriteFile` hooks of the plugins for a file.
+   *
+   * @param projectPath - The project directory path
+   * @param relativePath - The file path relative to the project directory
+   * @param content - The contents produced by the template, or a file to stream into place
+   * @returns The contents to write, or false when a plugin vetoed the file
+   * @private
+   */
+  private async applyWriteHooks(
+    projectPath: string,
+    relativePath: string,
+    content: string | { source: string },
+  ): Promise<string | { source: string } | false> {
+    const plugins = this.options.pluginManager
+    if (!plugins) return content
+
+    const result = await plugins.executeHook(
+      'beforeWriteFile',
+      { path: relativePath, projectPath },
+      typeof content === 'string' ? content : undefined,
+    )
+    if (result === false || typeof result === 'string') return result
+    return content
+  }
+
+  /**
+   * Writes a file of the project, applying the conflict strategy when the file
+   * already existed before this run. Files written earlier in the same run are
+   * simply replaced.
+   *
+   * @param projectPath - The project directory path
+   * @param relativePath - The file path relative to the project directory
+   * @param content - The contents produced by the template, or a file to stream into place
+   * @param config - The generator configuration
+   * @param spinner - Spinner to pause while the user resolves a conflict
+   * @returns False when the existing file was kept
+   * @throws {FileSystemError} When the strategy is `abort` and the file exists
+   * @throws {ConfigurationError} When `prompt-per-file` is used without a conflict resolver
+   * @private
+   */
+  private async writeProjectFile(
+    projectPath: string,
+    relativePath: string,
+    content: string | { source: string },
+    config: GeneratorConfig,
+    spinner?: Ora,
+  ): Promise<boolean> {
+    const filePath = join(projectPath, relativePath)
+    const strategy = config.conflictStrategy ?? 'abort'
+    const binary = typeof content !== 'string'
+    const asks = this.asksAboutConflicts(config)
+    let output = content
+
+    if (!this.transaction.hasWritten(filePath) && (await pathExists(filePath))) {
+      const existing = binary ? '' : await readFile(filePath)
+
+      if (strategy === 'abort') {
+        throw ErrorFactory.filesystem(`File '${relativePath}' already exists`, {
+          operation: 'writeProjectFile',
+          projectName: config.projectName,
+          filePath,
+        })
+      }
+      if (strategy === 'skip') {
+        return false
+      }
+      if (strategy === 'prompt-per-file' && config.interactive === false) {
+        return false
+      }
+      if (strategy === 'merge') {
+        // Binary files cannot be merged: keep the existing file unless the user says otherwise
+        if (binary && !asks) return false
+        if (typeof content === 'string') {
+          output = mergeContents(relativePath, existing, content)
+          if (output === existing) return false
+        }
+      }
+      if (strategy === 'prompt-per-file' || (strategy === 'merge' && asks)) {
+        const resolution = await this.askConflict(
+          {
+            path: relativePath,
+            filePath,
+            strategy,
+            existing,
+            incoming: typeof output === 'string' ? output : '',
+            binary,
+          },
+          spinner,
+        )
+        if (resolution === 'skip') return false
+      }
+    }
+
+    if (typeof output === 'string') {
+      await this.transaction.writeFile(filePath, output)
+    } else {
+      await this.transaction.copyFile(output.source, filePath)
+    }
+    return true
+  }
+
+  /**
+   * Whether `merge` conflicts are put to the conflict resolver. Without a resolver, or
+   * when `config.interactive` is false, the merge is applied without asking.
+   *
+   * @param config - The generator configuration
+   * @returns True when the user is asked about conflicting files
+   * @private
+   */
+  private asksAboutConflicts(config: GeneratorConfig): boolean {
+    return Boolean(this.options.resolveConflict) && config.interactive !== false
+  }
+
+  /**
+   * Undoes a failed generation. Rollback problems are reported but never hide
+   * the original error.
+   *
+   * @param transaction - The transaction of the failed generation
+   * @private
+   */
+  private async rollback(transaction: GenerationTransaction): Promise<void> {
+    const spinner = ora('Rolling back generated files...').start()
+    try {
+      await transaction.rollback()
+      spinner.succeed('Rolled back partially generated project')
+    } catch (error) {
+      spinner.fail(
+        `Failed to roll back generated files: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+  }
+
+  /**
+   * Asks the configured resolver what to do with a conflicting file.
+   *
+   * @param conflict - The conflicting file
+   * @param spinner - Spinner to pause while the user answers
+   * @returns Whether to overwrite or keep the existing file
+   * @throws {ConfigurationError} When no conflict resolver is configured
+   * @private
+   */
+  private async askConflict(conflict: FileConflict, spinner?: Ora): Promise<ConflictResolution> {
+    if (!this.options.resolveConflict) {
+      throw ErrorFactory.configuration(
+        `The '${conflict.strategy}' conflict strategy requires a resolveConflict callback`,
+        { operation: 'writeProjectFile', filePath: conflict.filePath },
+      )
+    }
+
+    spinner?.stop()
+    try {
+      return await this.options.resolveConflict(conflict)
+    } finally {
+      spinner?.start()
+    }
+  }
+
+  /**
+   * Builds the package.json contents for the generated project.
+   *
+   * @param template The template configuration
+   * @param config The generator configuration
+   * @returns The package.json object
+   * @private
+   */
+  private buildPackageJson(
+    template: TemplateConfig,
+    config: GeneratorConfig,
+  ): Record<string, unknown> {
+    return {
+      name: config.projectName,
+      version: '0.1.0',
+      private: true,
+      scripts: template.scripts || {},
+      dependencies: template.dependencies?.dependencies || {},
+      devDependencies: template.dependencies?.devDepencies || {},
+      peerDependencies: template.dependencies?.peerDependencies || {},
+    }
+  }
+
+  /**
+   * Installs project dependencies with the selected package manager.
    *
    * @param projectPath The project directory path
+   * @param packageManager The package manager to install with
    * @throws {DependencyError} When dependency installation fails
    * @private
    */
-  private async installDependencies(projectPath: string): Promise<void> {
-    const spinner = ora('Installing dependencies...').start()
+  private async installDependencies(
+    projectPath: string,
+    packageManager: PackageManager,
+  ): Promise<void> {
+    const command = getInstallCommand(packageManager)
+    const spinner = ora(`Installing dependencies with ${packageManager}...`).start()
 
     try {
-      await execAsync('npm install', { cwd: projectPath })
+      await execAsync(command, { cwd: projectPath })
       spinner.succeed('Dependencies installed successfully')
     } catch (error) {
       spinner.fail('Failed to install dependencies')
@@ -175,10 +650,11 @@ export class ProjectGenerator {
         throw ErrorFactory.dependency(`Failed to install dependencies: ${error.message}`, {
           operation: 'installDependencies',
           filePath: projectPath,
+          additionalInfo: { command },
         })
       }
 
-      console.log('You can install them manually later with: npm install')
+      console.log(`You can install them manually later with: ${command}`)
     }
   }
 }
@@ -1,11 +1,52 @@
-import { stdin as input, stdout as output } from 'node:process'
-import { createInterface as createSyncInterface } from 'node:readline'
+import { spawn } from 'node:child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { env, stdin, stdout } from 'node:process'
+import {
+  clearScreenDown,
+  createInterface as createSyncInterface,
+  emitKeypressEvents,
+  moveCursor,
+} from 'node:readline'
 import { createInterface as createAsyncInterface } from 'node:readline/promises'
-import type { ReadlineMode } from '../types/index.d.js'
+import { ErrorFactory } from '../errors/index.js'
+import type { PromptChoice, ReadlineMode, UITheme } from '../types/index.d.js'
+import { fuzzyFilter } from '../utils/fuzzy.js'
+import { hex } from '../utils/themes.js'
+
+/** Line that ends multi-line input when no editor is configured */
+export const EDITOR_SENTINEL = '.'
+
+/** Answer that returns to the previous prompt while back navigation is enabled */
+export const BACK_INPUT = '<'
+
+/**
+ * Thrown by a prompt when the user asks to return to the previous one, by entering
+ * `BACK_INPUT` or pressing Escape. Only thrown while back navigation is enabled.
+ */
+export class NavigateBack extends Error {
+  constructor() {
+    super('Navigate back to the previous prompt')
+    this.name = 'NavigateBack'
+  }
+}
+
+interface Key {
+  name?: string
+  ctrl?: boolean
+}
+
+interface ListOptions {
+  theme?: UITheme
+  /** Value focused first for `select()`, or the values checked up front for `multiselect()` */
+  initial?: unknown
+}
 
 /**
  * Manages readline interfaces for both Callback(sync) and Promise(async) operations.
- * Provides a unified interface for user input handling.
+ * Provides a unified interface for user input handling, plus arrow-key driven
+ * `select()`, `multiselect()` and `autocomplete()` prompts when stdin is a TTY.
  *
  * @example
  * ```typescript
@@ -19,6 +60,19 @@ export class ReadlineManager {
   private mode: ReadlineMode = 'async'
   private asyncInterface?: any
   private syncInterface?: any
+  private input: NodeJS.ReadStream
+  private output: NodeJS.WriteStream
+  private backNavigation = false
+
+  /**
+   * Creates a new ReadlineManager instance.
+   *
+   * @param streams - Input and output streams, `process.stdin` and `process.stdout` by default
+   */
+  constructor(streams: { input?: NodeJS.ReadStream; output?: NodeJS.WriteStream } = {}) {
+    this.input = streams.input ?? stdin
+    this.output = streams.output ?? stdout
+  }
 
   /**
    * Sets the readline mode (async or sync) and cleans up existing interfaces.
@@ -36,13 +90,26 @@ export class ReadlineManager {
    *
    * @param query - The question to ask the user
    * @returns Promise resolving to the user's input
+   * @throws {NavigateBack} When back navigation is enabled and the user enters `BACK_INPUT`
    */
   async question(query: string): Promise<string> {
-    if (this.mode === 'async') {
-      return await this.questionAsync(query)
-    } else {
-      return await this.questionSync(query)
+    const answer =
+      this.mode === 'async' ? await this.questionAsync(query) : await this.questionSync(query)
+
+    if (this.backNavigation && answer.trim() === BACK_INPUT) {
+      throw new NavigateBack()
     }
+    return answer
+  }
+
+  /**
+   * Enables or disables going back to the previous prompt. While enabled, answering
+   * `BACK_INPUT` or pressing Escape makes prompts throw `NavigateBack`.
+   *
+   * @param enabled - Whether back navigation is allowed
+   */
+  setBackNavigation(enabled: boolean): void {
+    this.backNavigation = enabled
   }
 
   /**
@@ -54,7 +121,7 @@ export class ReadlineManager {
    */
   private async questionAsync(query: string): Promise<string> {
     if (!this.asyncInterface) {
-      this.asyncInterface = createAsyncInterface({ input, output })
+      this.asyncInterface = createAsyncInterface({ input: this.input, output: this.output })
     }
     return await this.asyncInterface.question(query)
   }
@@ -69,12 +136,274 @@ export class ReadlineManager {
   private async questionSync(query: string): Promise<string> {
     return new Promise<string>(resolve => {
       if (!this.syncInterface) {
-        this.syncInterface = createSyncInterface({ input, output })
+        this.syncInterface = createSyncInterface({ input: this.input, output: this.output })
       }
       this.syncInterface.question(query, resolve)
     })
   }
 
+  /**
+   * Asks for a secret without echoing it: each typed character is shown as `mask`.
+   * Without a TTY the line is read as-is, since piped input is not echoed anyway.
+   *
+   * @param query - The question to ask
+   * @param options - The mask character, `*` by default; an empty string hides the input
+   * @returns Promise resolving to the secret
+   * @throws {ReadlineError} When the user cancels with Ctrl+C
+   */
+  async password(query: string, options: { mask?: string } = {}): Promise<string> {
+    if (!this.isInteractive()) {
+      // A secret may well be `BACK_INPUT`, so it never navigates back
+      return this.mode === 'async'
+        ? await this.questionAsync(query)
+        : await this.questionSync(query)
+    }
+
+    const mask = options.mask ?? '*'
+    let value = ''
+    const masked = (): string => mask.repeat(Array.from(value).length)
+
+    const secret = await this.keyLoop<string>(
+      'password',
+      () => [`${query}${masked()}`],
+      (text, key) => {
+        if (key.name === 'return' || key.name === 'enter') {
+          return { value }
+        }
+        if (key.name === 'backspace') {
+          value = Array.from(value).slice(0, -1).join('')
+        } else if (key.ctrl && key.name === 'u') {
+          value = ''
+        } else if (text && !key.ctrl && /^[^\x00-\x1f\x7f]+$/.test(text)) {
+          value += text
+        }
+        return undefined
+      },
+    )
+
+    this.output.write(`${query}${masked()}\n`)
+    return secret
+  }
+
+  /**
+   * Collects multi-line text. On a TTY with `$VISUAL` or `$EDITOR` set, the initial
+   * text is written to a temp file, the editor is opened on it and the saved contents
+   * are read back once it exits. Otherwise lines are read from stdin until a line
+   * containing only `EDITOR_SENTINEL`.
+   *
+   * @param message - The question to show
+   * @param options - The initial text and the temp file extension
+   * @returns Promise resolving to the text, without the final newline
+   * @throws {ReadlineError} When the editor exits with an error
+   */
+  async editor(
+    message: string,
+    options: { initial?: string; extension?: string } = {},
+  ): Promise<string> {
+    const command = env.VISUAL || env.EDITOR
+    if (!command || !this.isInteractive()) {
+      return await this.readLines(message, options.initial)
+    }
+
+    // The editor needs the terminal to itself
+    this.cleanup()
+    this.output.write(`${message} (waiting for ${command} to close)\n`)
+
+    const dir = await mkdtemp(join(tmpdir(), 'cli-editor-'))
+    const file = join(dir, `input${options.extension ?? '.txt'}`)
+    try {
+      await writeFile(file, options.initial ?? '', 'utf8')
+      const code = await new Promise<number | null>((resolve, reject) => {
+        spawn(`${command} "${file}"`, { shell: true, stdio: 'inherit' })
+          .on('error', reject)
+          .on('exit', resolve)
+      })
+      if (code !== 0) {
+        throw ErrorFactory.readline(`Editor '${command}' exited with code ${code}`, {
+          operation: 'editor',
+          filePath: file,
+        })
+      }
+      return (await readFile(file, 'utf8')).replace(/\r?\n$/, '')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Whether arrow-key prompts can be used, i.e. stdin is a TTY that supports raw mode.
+   *
+   * @returns True when `select()` and `multiselect()` are available
+   */
+  isInteractive(): boolean {
+    return Boolean(this.input.isTTY) && typeof this.input.setRawMode === 'function'
+  }
+
+  /**
+   * Shows a list navigated with the arrow keys and returns the chosen value.
+   * Requires `isInteractive()`.
+   *
+   * @param message - The question to show above the list
+   * @param choices - The choices to pick from
+   * @param options - Theme for highlighting and the initially focused value
+   * @returns Promise resolving to the value of the chosen item
+   * @throws {ValidationError} When there are no choices
+   * @throws {ReadlineError} When the user cancels with Ctrl+C
+   */
+  async select(
+    message: string,
+    choices: PromptChoice[],
+    options: ListOptions = {},
+  ): Promise<unknown> {
+    const focus = choices.findIndex(choice => choice.value === options.initial)
+    const [index] = await this.runList(message, choices, false, options.theme, {
+      focus: Math.max(focus, 0),
+      checked: new Set(),
+    })
+    return choices[index].value
+  }
+
+  /**
+   * Shows a checkbox list: arrow keys move, space toggles, `a` toggles all and
+   * enter confirms. Requires `isInteractive()`.
+   *
+   * @param message - The question to show above the list
+   * @param choices - The choices to pick from
+   * @param options - Theme for highlighting and the initially checked values
+   * @returns Promise resolving to the values of the checked items, in list order
+   * @throws {ValidationError} When there are no choices
+   * @throws {ReadlineError} When the user cancels with Ctrl+C
+   */
+  async multiselect(
+    message: string,
+    choices: PromptChoice[],
+    options: ListOptions = {},
+  ): Promise<unknown[]> {
+    const initial = Array.isArray(options.initial) ? options.initial : []
+    const checked = new Set(
+      choices.flatMap((choice, index) => (initial.includes(choice.value) ? [index] : [])),
+    )
+    const indices = await this.runList(message, choices, true, options.theme, { focus: 0, checked })
+    return indices.map(index => choices[index].value)
+  }
+
+  /**
+   * Shows a text field that filters the choices with fuzzy matching as the user types.
+   * Arrow keys move through the matches and enter picks the focused one. With `source`,
+   * the choices are loaded for every change of the input instead. Requires `isInteractive()`.
+   *
+   * @param message - The question to show
+   * @param options - Static `choices` or an async `source`, the theme and how many matches to show
+   * @returns Promise resolving to the value of the chosen item
+   * @throws {ReadlineError} When the user cancels with Ctrl+C
+   */
+  async autocomplete(
+    message: string,
+    options: {
+      choices?: PromptChoice[]
+      source?: (input: string) => PromptChoice[] | Promise<PromptChoice[]>
+      theme?: UITheme
+      limit?: number
+    },
+  ): Promise<unknown> {
+    const { choices = [], source, theme, limit = 10 } = options
+    const color = this.colorizer(theme)
+    const state = {
+      query: '',
+      focus: 0,
+      matches: source ? [] : choices,
+      loading: false,
+      error: '',
+    }
+    let redraw = (): void => {}
+    let request = 0
+
+    const update = (): void => {
+      state.focus = 0
+      if (!source) {
+        state.matches = fuzzyFilter(state.query, choices)
+        return
+      }
+
+      const id = ++request
+      state.loading = true
+      Promise.resolve()
+        .then(() => source(state.query))
+        .then(
+          matches => {
+            if (id !== request) return
+            Object.assign(state, { matches, loading: false, error: '' })
+            redraw()
+          },
+          (error: unknown) => {
+            if (id !== request) return
+            const text = error instanceof Error ? error.message : String(error)
+            Object.assign(state, { matches: [], loading: false, error: text })
+            redraw()
+          },
+        )
+    }
+
+    const draw = (): string[] => {
+      const hint = color('muted', '(type to filter, ↑/↓ to move, enter to confirm)')
+      const lines = [`${color('primary', '?')} ${message} ${state.query || hint}`]
+      const offset = Math.max(0, state.focus - limit + 1)
+
+      state.matches.slice(offset, offset + limit).forEach((choice, index) => {
+        const focused = offset + index === state.focus
+        lines.push(
+          focused
+            ? `${color('primary', '❯')} ${color('primary', choice.name)}`
+            : `  ${choice.name}`,
+        )
+      })
+
+      if (state.loading) {
+        lines.push(color('muted', '  Loading...'))
+      } else if (state.error) {
+        lines.push(color('error', `  ${state.error}`))
+      } else if (state.matches.length === 0) {
+        lines.push(color('muted', '  No matches'))
+      }
+
+      const description = state.matches[state.focus]?.description
+      if (description) {
+        lines.push(color('muted', `  ${description}`))
+      }
+      return lines
+    }
+
+    const choice = await this.keyLoop<PromptChoice>(
+      'autocomplete',
+      draw,
+      (text, key) => {
+        const count = state.matches.length
+        if (key.name === 'up') {
+          if (count) state.focus = (state.focus - 1 + count) % count
+        } else if (key.name === 'down') {
+          if (count) state.focus = (state.focus + 1) % count
+        } else if (key.name === 'return' || key.name === 'enter') {
+          const focused = state.matches[state.focus]
+          if (focused && !state.loading) return { value: focused }
+        } else if (key.name === 'backspace') {
+          state.query = state.query.slice(0, -1)
+          update()
+        } else if (text && !key.ctrl && /^[^\x00-\x1f\x7f]+$/.test(text)) {
+          state.query += text
+          update()
+        }
+        return undefined
+      },
+      render => {
+        redraw = render
+        if (source) update()
+      },
+    )
+
+    this.output.write(`${color('primary', '?')} ${message} ${color('info', choice.name)}\n`)
+    return choice.value
+  }
+
   /**
    * Cleans up and closes all readline interfaces.
    * Should be called when done with the manager.
@@ -89,4 +418,208 @@ export class ReadlineManager {
       this.syncInterface = undefined
     }
   }
+
+  /**
+   * Reads lines until one contains only `EDITOR_SENTINEL`. Entering the sentinel
+   * right away keeps the initial text.
+   *
+   * @param message - The question to show
+   * @param initial - The text returned when nothing is entered
+   * @returns Promise resolving to the entered lines
+   * @private
+   */
+  private async readLines(message: string, initial = ''): Promise<string> {
+    const keep = initial ? '; enter it right away to keep the default' : ''
+    this.output.write(`${message} (end with a line containing only "${EDITOR_SENTINEL}"${keep})\n`)
+
+    // A dedicated interface buffers pasted or piped lines that arrive at once
+    this.cleanup()
+    const reader = createSyncInterface({ input: this.input, output: this.output, terminal: false })
+    const lines: string[] = []
+    try {
+      for await (const line of reader) {
+        if (line.trim() === EDITOR_SENTINEL) break
+        if (lines.length === 0 && this.backNavigation && line.trim() === BACK_INPUT) {
+          throw new NavigateBack()
+        }
+        lines.push(line)
+      }
+    } finally {
+      reader.close()
+    }
+    return lines.length === 0 ? initial : lines.join('\n')
+  }
+
+  /**
+   * Runs the raw-mode key loop shared by `select()` and `multiselect()`. Lists taller
+   * than the terminal scroll with the focused item.
+   *
+   * @param message - The question to show above the list
+   * @param choices - The choices to pick from
+   * @param multiple - Whether several items can be checked
+   * @param theme - Theme for highlighting
+   * @param state - The initially focused item and checked items
+   * @returns Promise resolving to the chosen indices
+   * @throws {ValidationError} When there are no choices
+   * @private
+   */
+  private async runList(
+    message: string,
+    choices: PromptChoice[],
+    multiple: boolean,
+    theme: UITheme | undefined,
+    state: { focus: number; checked: Set<number> },
+  ): Promise<number[]> {
+    if (choices.length === 0) {
+      throw ErrorFactory.validation(`No choices to pick from for '${message}'`, {
+        operation: multiple ? 'multiselect' : 'select',
+      })
+    }
+
+    const color = this.colorizer(theme)
+    const hint = multiple
+      ? '↑/↓ to move, space to toggle, a to toggle all, enter to confirm'
+      : '↑/↓ to move, enter to confirm'
+    let offset = 0
+
+    const draw = (): string[] => {
+      const lines = [`${color('primary', '?')} ${message} ${color('muted', `(${hint})`)}`]
+
+      // Leave room for the question, the description and the cursor line
+      const limit = Math.max(1, (this.output.rows || Infinity) - 3)
+      offset = Math.min(Math.max(offset, state.focus - limit + 1), state.focus)
+
+      choices.slice(offset, offset + limit).forEach((choice, position) => {
+        const index = offset + position
+        const focused = index === state.focus
+        const pointer = focused ? color('primary', '❯') : ' '
+        const box = multiple ? `${state.checked.has(index) ? color('success', '◉') : '◯'} ` : ''
+        lines.push(`${pointer} ${box}${focused ? color('primary', choice.name) : choice.name}`)
+      })
+
+      const description = choices[state.focus]?.description
+      if (description) {
+        lines.push(color('muted', `  ${description}`))
+      }
+      return lines
+    }
+
+    const indices = await this.keyLoop<number[]>(
+      multiple ? 'multiselect' : 'select',
+      draw,
+      (text, key) => {
+        if (key.name === 'up' || key.name === 'k') {
+          state.focus = (state.focus - 1 + choices.length) % choices.length
+        } else if (key.name === 'down' || key.name === 'j') {
+          state.focus = (state.focus + 1) % choices.length
+        } else if (multiple && key.name === 'space') {
+          if (!state.checked.delete(state.focus)) state.checked.add(state.focus)
+        } else if (multiple && text === 'a') {
+          const all = state.checked.size === choices.length
+          state.checked = new Set(all ? [] : choices.map((_, index) => index))
+        } else if (key.name === 'return' || key.name === 'enter') {
+          return { value: multiple ? [...state.checked].sort((a, b) => a - b) : [state.focus] }
+        }
+        return undefined
+      },
+    )
+
+    const summary = indices.map(index => choices[index].name).join(', ')
+    this.output.write(`${color('primary', '?')} ${message} ${color('info', summary)}\n`)
+    return indices
+  }
+
+  /**
+   * Puts stdin in raw mode and redraws the prompt after every keypress until `onKey`
+   * returns a result. Ctrl+C cancels the prompt.
+   *
+   * @param operation - Name of the prompt, used in the cancellation error
+   * @param draw - Returns the lines of the prompt for the current state
+   * @param onKey - Updates the state for a keypress; returns `{ value }` to finish
+   * @param start - Called once with a function to redraw outside of keypresses
+   * @returns Promise resolving to the value returned by `onKey`
+   * @throws {ReadlineError} When the user cancels with Ctrl+C
+   * @throws {NavigateBack} When back navigation is enabled and the user presses Escape
+   * @private
+   */
+  private keyLoop<T>(
+    operation: string,
+    draw: () => string[],
+    onKey: (text: string | undefined, key: Key) => { value: T } | undefined,
+    start?: (redraw: () => void) => void,
+  ): Promise<T> {
+    // Readline interfaces would consume the same keypresses
+    this.cleanup()
+
+    let renderedLines = 0
+    let active = true
+    const render = (): void => {
+      if (!active) return
+      const lines = draw()
+      this.clearLines(renderedLines)
+      this.output.write(`${lines.join('\n')}\n`)
+      renderedLines = lines.length
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const finish = (): void => {
+        active = false
+        this.input.removeListener('keypress', onKeypress)
+        this.input.setRawMode(false)
+        this.input.pause()
+        this.clearLines(renderedLines)
+      }
+
+      const onKeypress = (text: string | undefined, key: Key = {}): void => {
+        if (key.ctrl && key.name === 'c') {
+          finish()
+          reject(ErrorFactory.readline('Prompt cancelled', { operation }))
+          return
+        }
+        if (key.name === 'escape' && this.backNavigation) {
+          finish()
+          reject(new NavigateBack())
+          return
+        }
+
+        const result = onKey(text, key)
+        if (result) {
+          finish()
+          resolve(result.value)
+        } else {
+          render()
+        }
+      }
+
+      emitKeypressEvents(this.input)
+      this.input.setRawMode(true)
+      this.input.resume()
+      this.input.on('keypress', onKeypress)
+      render()
+      start?.(render)
+    })
+  }
+
+  /**
+   * Returns a function that colors text with the theme, or leaves it plain without one.
+   *
+   * @param theme - The theme to color with
+   * @returns The color function
+   * @private
+   */
+  private colorizer(theme?: UITheme): (key: keyof UITheme, text: string) => string {
+    return (key, text) => (theme ? hex(theme[key], text) : text)
+  }
+
+  /**
+   * Erases the given number of lines above the cursor.
+   *
+   * @param count - The number of lines to erase
+   * @private
+   */
+  private clearLines(count: number): void {
+    if (count === 0) return
+    moveCursor(this.output, 0, -count)
+    clearScreenDown(this.output)
+  }
 }
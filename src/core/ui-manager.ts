@@ -1,7 +1,38 @@
-import type { Color, ShowWelcomeOptions, UITheme } from '../types/index.d.js'
+import type {
+  Color,
+  GenerationPlan,
+  HelpInfo,
+  ShowWelcomeOptions,
+  SummaryRow,
+  UITheme,
+} from '../types/index.d.js'
 // Avoid depending on picocolors named exports here to keep examples runnable.
 const bold = (s: string) => s
+import type { DiffLine } from '../utils/diff.js'
+import { getInstallCommand } from '../utils/package-manager.js'
 import { hex } from '../utils/themes.js'
+import { formatHelp } from './mini-commander.js'
+
+/**
+ * Formats a byte count for display, e.g. `1.2 KB`.
+ *
+ * @param bytes - The number of bytes
+ * @returns The human readable size
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * How `showPlan()` marks files that already exist, by `PlannedFile.conflict`.
+ */
+const conflictLabels: Record<string, string> = {
+  overwrite: 'overwrites existing file',
+  merge: 'merged with existing file',
+  prompt: 'exists, will ask',
+}
 
 /**
  * Manages user interface elements including colors, themes, and console output.
@@ -37,6 +68,24 @@ export class UIManager {
       } as Record<keyof UITheme, Color>)
   }
 
+  /**
+   * Returns the active theme.
+   *
+   * @returns The theme used by this manager
+   */
+  getTheme(): UITheme {
+    return this.theme
+  }
+
+  /**
+   * Replaces the active theme.
+   *
+   * @param theme - The theme to use from now on
+   */
+  setTheme(theme: UITheme): void {
+    this.theme = theme
+  }
+
   /**
    * Displays a welcome message with the application name.
    * Clears the console and shows a styled logo.
@@ -98,6 +147,23 @@ export class UIManager {
     console.log(bold(hex(this.theme.info, `ℹ️ ${message}`)))
   }
 
+  /**
+   * Displays the heading of a group of prompts, e.g. `Step 2/3 · Styling`.
+   *
+   * @param title - The group title
+   * @param options - The step number, number of steps and an optional description
+   */
+  showSection(
+    title: string,
+    options: { step?: number; total?: number; description?: string } = {},
+  ): void {
+    const step = options.step && options.total ? `Step ${options.step}/${options.total} · ` : ''
+    console.log(bold(hex(this.theme.primary, `\n${step}${title}`)))
+    if (options.description) {
+      console.log(hex(this.theme.muted, options.description))
+    }
+  }
+
   /**
    * Displays a progress bar with the current progress.
    *
@@ -113,6 +179,133 @@ export class UIManager {
     console.log(hex(this.theme.info, `${message} [${progressBar}${emptyBar}] ${percentage}%`))
   }
 
+  /**
+   * Renders command help with the active theme.
+   * Headings use the primary color, flags and commands the info color and
+   * descriptions the muted color.
+   *
+   * @param info - The help information of a command
+   * @returns The colored help text
+   */
+  formatHelp(info: HelpInfo): string {
+    return formatHelp(info, {
+      heading: text => bold(hex(this.theme.primary, text)),
+      term: text => hex(this.theme.info, text),
+      description: text => hex(this.theme.muted, text),
+    })
+  }
+
+  /**
+   * Displays a generation plan as a file tree with sizes, followed by the
+   * package.json that would be written and the install steps that would run.
+   *
+   * @param plan - The plan returned by `ProjectGenerator.plan()`
+   */
+  showPlan(plan: GenerationPlan): void {
+    interface Node {
+      children: Map<string, Node>
+      size?: number
+      conflict?: string
+    }
+
+    const root: Node = { children: new Map() }
+    for (const file of plan.files) {
+      const parts = file.path.split(/[\\/]/).filter(part => part && part !== '.')
+      let node = root
+      for (const part of parts) {
+        if (!node.children.has(part)) node.children.set(part, { children: new Map() })
+        node = node.children.get(part)!
+      }
+      node.size = file.size
+      node.conflict = file.conflict
+    }
+
+    const lines: string[] = []
+    const walk = (node: Node, prefix: string): void => {
+      const entries = [...node.children.entries()].sort(([a, na], [b, nb]) => {
+        const aIsDir = na.size === undefined
+        const bIsDir = nb.size === undefined
+        return aIsDir === bIsDir ? a.localeCompare(b) : aIsDir ? -1 : 1
+      })
+      entries.forEach(([name, child], index) => {
+        const last = index === entries.length - 1
+        const label =
+          child.size === undefined
+            ? hex(this.theme.primary, `${name}/`)
+            : `${name} ${hex(this.theme.muted, `(${formatBytes(child.size)})`)}` +
+              (child.conflict ? hex(this.theme.warning, ` ${conflictLabels[child.conflict]}`) : '')
+        lines.push(`${prefix}${last ? '└── ' : '├── '}${label}`)
+        walk(child, `${prefix}${last ? '    ' : '│   '}`)
+      })
+    }
+    walk(root, '')
+
+    const total = plan.files.reduce((sum, file) => sum + file.size, 0)
+
+    this.showInfo(`Dry run: nothing will be written to ${plan.projectPath}`)
+    console.log(bold(hex(this.theme.primary, `${plan.projectPath}/`)))
+    console.log(lines.join('\n'))
+    console.log(hex(this.theme.muted, `\n${plan.files.length} files, ${formatBytes(total)}\n`))
+    console.log(bold('package.json'))
+    console.log(hex(this.theme.muted, JSON.stringify(plan.packageJson, null, 2)))
+    console.log()
+    console.log(
+      `Install dependencies: ${plan.install ? `yes (${getInstallCommand(plan.packageManager)})` : 'no'}`,
+    )
+    console.log(`Run post-install hook: ${plan.postInstall ? 'yes' : 'no'}`)
+  }
+
+  /**
+   * Displays label/value pairs as a bordered two-column table.
+   *
+   * @param title - The heading shown above the table
+   * @param rows - The rows to display
+   */
+  showSummary(title: string, rows: SummaryRow[]): void {
+    const labelWidth = Math.max(...rows.map(row => row.label.length), 0)
+    const valueWidth = Math.max(...rows.map(row => row.value.length), 0)
+    const border = (left: string, middle: string, right: string): string =>
+      hex(
+        this.theme.muted,
+        `${left}${'─'.repeat(labelWidth + 2)}${middle}${'─'.repeat(valueWidth + 2)}${right}`,
+      )
+    const bar = hex(this.theme.muted, '│')
+
+    console.log(bold(hex(this.theme.primary, `\n${title}`)))
+    console.log(border('┌', '┬', '┐'))
+    for (const row of rows) {
+      const label = hex(this.theme.info, row.label.padEnd(labelWidth))
+      console.log(`${bar} ${label} ${bar} ${row.value.padEnd(valueWidth)} ${bar}`)
+    }
+    console.log(border('└', '┴', '┘'))
+  }
+
+  /**
+   * Displays a line diff for a file, with two lines of context around each change.
+   *
+   * @param path - The file path shown in the header
+   * @param lines - The diff lines, as returned by `diffLines()`
+   */
+  showDiff(path: string, lines: DiffLine[]): void {
+    const context = 2
+    const visible = lines.map((line, index) =>
+      lines
+        .slice(Math.max(0, index - context), index + context + 1)
+        .some(near => near.type !== 'same'),
+    )
+
+    console.log(bold(hex(this.theme.primary, `--- ${path}`)))
+    lines.forEach((line, index) => {
+      if (!visible[index]) {
+        if (index > 0 && visible[index - 1]) console.log(hex(this.theme.muted, '  ...'))
+        return
+      }
+      if (line.type === 'add') console.log(hex(this.theme.success, `+ ${line.line}`))
+      else if (line.type === 'remove') console.log(hex(this.theme.error, `- ${line.line}`))
+      else console.log(hex(this.theme.muted, `  ${line.line}`))
+    })
+  }
+
   /**
    * Clears the console screen.
    *
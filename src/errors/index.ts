@@ -159,6 +159,39 @@ export class ProcessError extends CLIError {
   }
 }
 
+/**
+ * Process exit codes by error code, so scripts can tell failures apart.
+ * Errors that are not a `CLIError` exit with 1.
+ */
+export const exitCodes: Record<string, number> = {
+  VALIDATION_ERROR: 2,
+  TEMPLATE_ERROR: 3,
+  FILESYSTEM_ERROR: 4,
+  DEPENDENCY_ERROR: 5,
+  PLUGIN_ERROR: 6,
+  READLINE_ERROR: 7,
+  CONFIGURATION_ERROR: 8,
+  NETWORK_ERROR: 9,
+  PROCESS_ERROR: 10,
+}
+
+/**
+ * Returns the process exit code for an error.
+ *
+ * @param error - The error that ended the run
+ * @returns The exit code from `exitCodes`, the exit code of a `CommanderError`, or 1
+ *
+ * @example
+ * ```typescript
+ * getExitCode(ErrorFactory.validation('Invalid name')); // 2
+ * ```
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof CommanderError) return error.exitCode
+  if (error instanceof CLIError) return exitCodes[error.code] ?? 1
+  return 1
+}
+
 /**
  * Factory class for creating specific error types with consistent patterns.
  * Provides a convenient way to create errors without importing individual classes.
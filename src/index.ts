@@ -1,4 +1,5 @@
 // Main API exports
+export { AnswerHistory, getConfigDir } from './core/answer-history.js'
 export { CLIBuilder } from './core/cli-builder.js'
 export { ProjectGenerator } from './core/project-generator.js'
 export { ReadlineManager } from './core/readline-manager.js'
@@ -6,6 +7,7 @@ export { UIManager } from './core/ui-manager.js'
 export { ValidationManager } from './core/validation-manager.js'
 
 // Plugin System
+export { cliRoot, loadPlugin } from './plugins/plugin-loader.js'
 export { PluginManager } from './plugins/plugin-manager.js'
 
 // Error System
@@ -14,7 +16,9 @@ export {
   ConfigurationError,
   DependencyError,
   ErrorFactory,
+  exitCodes,
   FileSystemError,
+  getExitCode,
   NetworkError,
   PluginError,
   ProcessError,
@@ -27,15 +31,42 @@ export {
 export type {
   CLIConfig,
   CLIErrorContext,
+  CommandArgument,
+  CommandConfig,
+  CommandOption,
+  ConflictResolution,
+  ConflictStrategy,
+  FileConflict,
+  GenerationPlan,
   GeneratorConfig,
+  HelpFormatter,
+  HelpInfo,
+  PackageManager,
+  PlannedFile,
   PluginAdapter,
   PluginConfig,
+  PluginContext,
+  PluginFactory,
   PluginHooks,
+  PluginLogger,
+  PluginManagerOptions,
+  PluginSpec,
+  ProjectFile,
+  ProjectGeneratorOptions,
+  PromptChoice,
   PromptConfig,
+  PromptGroup,
   PromptResult,
   PromptType,
   ReadlineMode,
+  RunResult,
+  RunStatus,
+  SemVer,
+  SummaryRow,
   TemplateConfig,
+  TemplateDirectoryOptions,
+  TemplateFilter,
+  TemplateManifest,
   UITheme,
   ValidationRule,
 } from './types/index.d.js'
@@ -45,3 +76,14 @@ export { createCLI, definePlugin, definePrompt, defineTemplate } from './utils/f
 export { themes } from './utils/themes.js'
 export { validators } from './utils/validators.js'
 export { ensureDir, writeFile, writeJson } from './utils/fs.js'
+export {
+  detectPackageManager,
+  getInstallCommand,
+  getRunCommand,
+  packageManagers,
+} from './utils/package-manager.js'
+export { renderTemplate, templateFilters } from './utils/template-engine.js'
+export { templateFromDirectory } from './utils/template-directory.js'
+export { fuzzyFilter, fuzzyScore } from './utils/fuzzy.js'
+export { isSecretPrompt, REDACTED, redactAnswers } from './utils/redact.js'
+export { compareVersions, isValidRange, parseVersion, satisfies } from './utils/semver.js'
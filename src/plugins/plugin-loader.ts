@@ -0,0 +1,199 @@
+import { realpath, stat } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { dirname, isAbsolute, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { ErrorFactory } from '../errors/index.js'
+import type { PluginConfig, PluginContext, PluginFactory, PluginSpec } from '../types/index.d.js'
+
+/**
+ * Suffixes tried, in order, for plugin paths written without an extension.
+ */
+const pathSuffixes = ['', '.js', '.mjs', '.cjs', '/index.js']
+
+/**
+ * Whether a specifier is a file path rather than a package name.
+ *
+ * @param specifier - The module specifier
+ * @returns True for relative and absolute paths
+ */
+const isPath = (specifier: string): boolean =>
+  specifier.startsWith('./') || specifier.startsWith('../') || isAbsolute(specifier)
+
+const isFile = async (path: string): Promise<boolean> => {
+  try {
+    return (await stat(path)).isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolves a plugin module to a file. Paths are resolved against `root`; package
+ * names are looked up in the `node_modules` directories above `root`.
+ *
+ * @param specifier - A file path or package name
+ * @param root - The directory to resolve from
+ * @returns The resolved file, if any, and every location that was tried
+ */
+async function resolvePlugin(
+  specifier: string,
+  root: string,
+): Promise<{ resolved?: string; attempted: string[] }> {
+  if (isPath(specifier)) {
+    const base = resolve(root, specifier)
+    const attempted = pathSuffixes.map(suffix => base + suffix)
+    for (const candidate of attempted) {
+      if (await isFile(candidate)) return { resolved: candidate, attempted }
+    }
+    return { attempted }
+  }
+
+  const require = createRequire(join(resolve(root), 'package.json'))
+  const attempted = (require.resolve.paths(specifier) ?? []).map(dir => join(dir, specifier))
+  try {
+    return { resolved: require.resolve(specifier), attempted }
+  } catch {
+    return { attempted }
+  }
+}
+
+/**
+ * Imports a plugin module.
+ *
+ * @param specifier - A file path or package name
+ * @param root - The directory to resolve from
+ * @returns The module namespace
+ * @throws {PluginError} When the module cannot be found or fails to load
+ */
+async function importPlugin(specifier: string, root: string): Promise<Record<string, unknown>> {
+  const { resolved, attempted } = await resolvePlugin(specifier, root)
+  const context = {
+    operation: 'loadPlugin',
+    filePath: resolved,
+    additionalInfo: { specifier, root, attempted },
+  }
+
+  if (resolved) {
+    try {
+      return await import(pathToFileURL(resolved).href)
+    } catch (error) {
+      throw ErrorFactory.plugin(
+        `Failed to load plugin '${specifier}': ${error instanceof Error ? error.message : error}`,
+        context,
+      )
+    }
+  }
+
+  // ESM-only packages cannot be resolved with require(); let import() try
+  if (!isPath(specifier)) {
+    try {
+      return await import(specifier)
+    } catch {
+      // Reported below with the attempted paths
+    }
+  }
+
+  throw ErrorFactory.plugin(
+    `Cannot find plugin '${specifier}' (tried ${attempted.join(', ')})`,
+    context,
+  )
+}
+
+/**
+ * Returns the directory of the package the running CLI belongs to: the nearest
+ * directory with a `package.json` above its entry script, following symlinks such
+ * as `node_modules/.bin` links. Plugins listed in `CLIConfig.plugins` are resolved
+ * from here when `root` is not set, so they are found wherever the CLI is run.
+ *
+ * @param entry - The entry script, `process.argv[1]` by default
+ * @returns The package directory, or the working directory when there is none
+ */
+export async function cliRoot(entry: string | undefined = process.argv[1]): Promise<string> {
+  if (!entry) return process.cwd()
+
+  let dir: string
+  try {
+    dir = dirname(await realpath(entry))
+  } catch {
+    return process.cwd()
+  }
+
+  while (true) {
+    if (await isFile(join(dir, 'package.json'))) return dir
+    const parent = dirname(dir)
+    if (parent === dir) return process.cwd()
+    dir = parent
+  }
+}
+
+/**
+ * Loads a plugin from a spec. Plugin objects are returned as they are; modules are
+ * imported and their default export is used. Factories, given directly or exported
+ * by a module, are called with the spec's options and the plugin context.
+ *
+ * @param spec - The plugin, a factory, a module path or package name, or a tuple with options
+ * @param root - The directory that paths and package names are resolved from
+ * @param context - The services passed to plugin factories
+ * @returns The plugin configuration
+ * @throws {PluginError} When the module cannot be found or loaded, the factory fails,
+ * or no plugin is exported
+ *
+ * @example
+ * ```typescript
+ * await loadPlugin('./plugins/lint.js', process.cwd(), context);
+ * await loadPlugin(['@acme/cli-plugin-docker', { image: 'node:20' }], process.cwd(), context);
+ * ```
+ */
+export async function loadPlugin(
+  spec: PluginSpec,
+  root: string,
+  context: PluginContext,
+): Promise<PluginConfig> {
+  if (typeof spec === 'object' && !Array.isArray(spec)) return spec
+
+  const [source, options = {}] = Array.isArray(spec) ? spec : [spec]
+  const name = pluginSpecName(spec)
+  let exported: unknown = source
+  if (typeof source === 'string') {
+    const module = await importPlugin(source, root)
+    exported = module.default ?? module
+  }
+
+  let plugin: unknown
+  try {
+    plugin =
+      typeof exported === 'function'
+        ? await (exported as PluginFactory)(options, context)
+        : exported
+  } catch (error) {
+    throw ErrorFactory.plugin(
+      `Plugin factory of '${name}' failed: ${error instanceof Error ? error.message : error}`,
+      { operation: 'loadPlugin', additionalInfo: { spec: name, options } },
+    )
+  }
+
+  if (!plugin || typeof plugin !== 'object' || typeof (plugin as PluginConfig).name !== 'string') {
+    const problem =
+      typeof exported === 'function'
+        ? `Plugin factory of '${name}' did not return a plugin`
+        : `Module '${name}' does not export a plugin`
+    throw ErrorFactory.plugin(problem, {
+      operation: 'loadPlugin',
+      additionalInfo: { spec: name },
+    })
+  }
+  return plugin as PluginConfig
+}
+
+/**
+ * Describes a plugin spec for messages, without loading it.
+ *
+ * @param spec - The plugin spec
+ * @returns The plugin name, the module specifier or the factory's function name
+ */
+export function pluginSpecName(spec: PluginSpec): string {
+  const source = Array.isArray(spec) ? spec[0] : spec
+  if (typeof source === 'string') return source
+  if (typeof source === 'function') return source.name || 'anonymous plugin factory'
+  return source.name
+}
@@ -1,10 +1,31 @@
 import { ErrorFactory } from '../errors/index.js'
-import type { PluginAdapter, PluginConfig, PluginHooks } from '../types/index.d.js'
+import type {
+  PluginAdapter,
+  PluginConfig,
+  PluginHooks,
+  PluginManagerOptions,
+} from '../types/index.d.js'
+import { isValidRange, parseVersion, satisfies } from '../utils/semver.js'
+
+/**
+ * Hooks whose return value replaces one of their arguments for the next plugin,
+ * by argument index.
+ */
+const waterfallArguments: Partial<Record<keyof PluginHooks, number>> = {
+  beforePrompt: 0,
+  afterPrompt: 1,
+  afterAnswers: 0,
+  beforeWriteFile: 1,
+}
 
 /**
  * Manages CLI plugins including installation, uninstallation, and hook execution.
  * Provides a complete plugin system for extending CLI functionality.
  *
+ * Hooks are started in the order returned by `resolveOrder()`, which honours
+ * `dependsOn`, `before`, `after` and `enforce`. Waterfall hooks run one plugin at a
+ * time; the other hooks run concurrently unless `sequential` is set.
+ *
  * @example
  * ```typescript
  * const manager = new PluginManager();
@@ -16,6 +37,17 @@ export class PluginManager implements PluginAdapter {
   public readonly name = 'PluginManager'
   public readonly version = '1.0.0'
   private plugins: Map<string, PluginConfig> = new Map()
+  private order?: PluginConfig[]
+  private options: PluginManagerOptions
+
+  /**
+   * Creates a new PluginManager instance.
+   *
+   * @param options - Optional settings, e.g. `sequential` to run every hook one plugin at a time
+   */
+  constructor(options: PluginManagerOptions = {}) {
+    this.options = options
+  }
 
   /**
    * Installs a plugin and validates its configuration.
@@ -35,6 +67,7 @@ export class PluginManager implements PluginAdapter {
       this.validatePluginConfig(config)
 
       this.plugins.set(config.name, config)
+      this.order = undefined
 
       console.log(`✅ Plugin '${config.name}' v${config.version} installed successfully`)
     } catch (error) {
@@ -64,6 +97,7 @@ export class PluginManager implements PluginAdapter {
       }
 
       this.plugins.delete(name)
+      this.order = undefined
       console.log(`✅ Plugin '${name}' uninstalled successfully`)
     } catch (error) {
       if (error instanceof Error) {
@@ -97,57 +131,187 @@ export class PluginManager implements PluginAdapter {
 
   /**
    * Executes a specific hook across all installed plugins.
-   * Handles errors gracefully and continues execution even if some plugins fail.
+   * Handles errors gracefully and continues execution even if some plugins fail;
+   * a failing hook is reported to the plugin's `onError` hook.
+   *
+   * Waterfall hooks (`beforePrompt`, `afterPrompt`, `afterAnswers`, `beforeWriteFile`)
+   * run one plugin after another and pass the value returned by one plugin on to the
+   * next; `false` from `beforeWriteFile` stops the chain. The other hooks run
+   * concurrently, or one after another with the `sequential` option.
    *
    * @param hookName - The name of the hook to execute
    * @param args - Arguments to pass to the hook functions
+   * @returns The final value of a waterfall hook, otherwise undefined
+   * @throws {PluginError} When the plugins cannot be ordered, see `resolveOrder()`
    */
-  async executeHook(hookName: keyof PluginHooks, ...args: unknown[]): Promise<void> {
-    const promises: Array<Promise<void>> = []
+  async executeHook(hookName: keyof PluginHooks, ...args: unknown[]): Promise<unknown> {
+    const index = waterfallArguments[hookName]
+    const plugins = this.resolveOrder().filter(plugin => plugin.hooks?.[hookName])
 
-    // No default payload; callers should provide context explicitly.
+    if (index === undefined) {
+      if (this.options.sequential) {
+        for (const plugin of plugins) await this.runHook(plugin, hookName, args)
+      } else {
+        await Promise.allSettled(plugins.map(plugin => this.runHook(plugin, hookName, args)))
+      }
+      return undefined
+    }
 
-    for (const plugin of this.plugins.values()) {
-      if (plugin.hooks && plugin.hooks[hookName]) {
-        const hook = plugin.hooks?.[hookName]
-        if (hook) {
-          try {
-            const result = (hook as (...args: Array<unknown>) => any)(...args)
-
-            if (result instanceof Promise) {
-              // Attach handlers to catch rejections and forward to onError if provided
-              const p = result.catch(async (err) => {
-                console.warn(`Warning: Plugin '${plugin.name}' hook '${hookName}' failed:`, err)
-                if (plugin.hooks && plugin.hooks.onError) {
-                  try {
-                    return plugin.hooks.onError(err as Error, `hook:${hookName}`)
-                  } catch (onErr) {
-                    console.error(`Plugin '${plugin.name}' onError hook also failed:`, onErr)
-                  }
-                }
-              })
-              promises.push(p)
-            }
-          } catch (error) {
-            console.warn(`Warning: Plugin '${plugin.name}' hook '${hookName}' failed:`, error)
-
-            if (plugin.hooks && plugin.hooks.onError) {
-              try {
-                const errorResult = plugin.hooks.onError(error as Error, `hook:${hookName}`)
-                if (errorResult instanceof Promise) {
-                  promises.push(errorResult)
-                }
-              } catch (onErrorError) {
-                console.error(`Plugin '${plugin.name}' onError hook also failed:`, onErrorError)
-              }
-            }
-          }
+    const values = [...args]
+    for (const plugin of plugins) {
+      const result = await this.runHook(plugin, hookName, values)
+      if (result !== undefined) {
+        values[index] = result
+        if (hookName === 'beforeWriteFile' && result === false) break
+      }
+    }
+    return values[index]
+  }
+
+  /**
+   * Orders the installed plugins for hook execution. Dependencies run before the
+   * plugins that depend on them and `before`/`after` hints are honoured; among the
+   * plugins that are free to run, `enforce: 'pre'` plugins come first and
+   * `enforce: 'post'` plugins last, otherwise installation order is kept.
+   *
+   * @returns The plugins in execution order
+   * @throws {PluginError} When a dependency is missing or has a version outside the
+   * required range, or when the constraints form a cycle
+   */
+  resolveOrder(): PluginConfig[] {
+    if (this.order) return this.order
+
+    const plugins = this.listPlugins()
+    const successors = new Map(plugins.map(plugin => [plugin.name, new Set<string>()]))
+    const addEdge = (from: string, to: string): void => {
+      if (successors.has(from) && successors.has(to)) successors.get(from)!.add(to)
+    }
+
+    for (const plugin of plugins) {
+      for (const [name, range] of Object.entries(plugin.dependsOn ?? {})) {
+        const dependency = this.plugins.get(name)
+        const context = {
+          operation: 'resolveOrder',
+          additionalInfo: { pluginName: plugin.name, dependency: name, range },
         }
+        if (!dependency) {
+          throw ErrorFactory.plugin(
+            `Plugin '${plugin.name}' depends on '${name}', which is not installed`,
+            context,
+          )
+        }
+        if (!satisfies(dependency.version, range)) {
+          throw ErrorFactory.plugin(
+            `Plugin '${plugin.name}' requires '${name}@${range}', but version ${dependency.version} is installed`,
+            context,
+          )
+        }
+        addEdge(name, plugin.name)
+      }
+      for (const name of plugin.before ?? []) addEdge(plugin.name, name)
+      for (const name of plugin.after ?? []) addEdge(name, plugin.name)
+    }
+
+    // Kahn's algorithm, taking the ready plugin with the lowest rank first
+    const rank = (plugin: PluginConfig): number =>
+      plugin.enforce === 'pre' ? 0 : plugin.enforce === 'post' ? 2 : 1
+    const indegree = new Map(plugins.map(plugin => [plugin.name, 0]))
+    for (const targets of successors.values()) {
+      for (const name of targets) indegree.set(name, indegree.get(name)! + 1)
+    }
+
+    const ready = plugins.filter(plugin => indegree.get(plugin.name) === 0)
+    const order: PluginConfig[] = []
+    while (ready.length > 0) {
+      ready.sort((a, b) => rank(a) - rank(b) || plugins.indexOf(a) - plugins.indexOf(b))
+      const next = ready.shift()!
+      order.push(next)
+      for (const name of successors.get(next.name)!) {
+        indegree.set(name, indegree.get(name)! - 1)
+        if (indegree.get(name) === 0) ready.push(this.plugins.get(name)!)
       }
     }
 
-    if (promises.length > 0) {
-      await Promise.allSettled(promises)
+    if (order.length < plugins.length) {
+      const cycle = this.findCycle(
+        plugins.filter(plugin => !order.includes(plugin)).map(plugin => plugin.name),
+        successors,
+      )
+      throw ErrorFactory.plugin(
+        `Plugin order constraints form a cycle: ${cycle.map(name => `'${name}'`).join(' -> ')}`,
+        { operation: 'resolveOrder', additionalInfo: { cycle } },
+      )
+    }
+
+    this.order = order
+    return order
+  }
+
+  /**
+   * Finds a cycle among the plugins that could not be ordered. Each of them has a
+   * predecessor among them, so walking predecessors must eventually repeat a plugin.
+   *
+   * @param remaining - Names of the plugins left over by the topological sort
+   * @param successors - The ordering edges
+   * @returns The plugin names along the cycle, with the first repeated at the end
+   * @private
+   */
+  private findCycle(remaining: string[], successors: Map<string, Set<string>>): string[] {
+    const path: string[] = []
+    let current = remaining[0]
+    while (!path.includes(current)) {
+      path.push(current)
+      current = remaining.find(name => successors.get(name)!.has(current))!
+    }
+
+    const cycle = path.slice(path.indexOf(current)).reverse()
+    return [...cycle, cycle[0]]
+  }
+
+  /**
+   * Runs one plugin's hook. A failure is reported instead of thrown.
+   *
+   * @param plugin - The plugin whose hook to run
+   * @param hookName - The name of the hook
+   * @param args - Arguments to pass to the hook
+   * @returns The hook's return value, or undefined when it failed
+   * @private
+   */
+  private async runHook(
+    plugin: PluginConfig,
+    hookName: keyof PluginHooks,
+    args: unknown[],
+  ): Promise<unknown> {
+    const hook = plugin.hooks?.[hookName] as (...args: unknown[]) => unknown
+    try {
+      return await hook(...args)
+    } catch (error) {
+      console.warn(`Warning: Plugin '${plugin.name}' hook '${hookName}' failed:`, error)
+      await this.reportHookError(plugin, hookName, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Forwards a hook failure to the plugin's `onError` hook, if it has one.
+   *
+   * @param plugin - The plugin whose hook failed
+   * @param hookName - The name of the failed hook
+   * @param error - The error thrown by the hook
+   * @private
+   */
+  private async reportHookError(
+    plugin: PluginConfig,
+    hookName: keyof PluginHooks,
+    error: unknown,
+  ): Promise<void> {
+    const onError = plugin.hooks?.onError
+    if (!onError || hookName === 'onError') return
+
+    try {
+      await onError(error as Error, `hook:${hookName}`)
+    } catch (onErrorError) {
+      console.error(`Plugin '${plugin.name}' onError hook also failed:`, onErrorError)
     }
   }
 
@@ -168,13 +332,17 @@ export class PluginManager implements PluginAdapter {
     }
 
     // Validate semantic versioning format
-    const semverRegex =
-      /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/
-    if (!semverRegex.test(config.version)) {
+    if (!parseVersion(config.version)) {
       throw ErrorFactory.plugin(
         `Plugin version '${config.version}' is not a valid semantic version`,
       )
     }
+
+    for (const [name, range] of Object.entries(config.dependsOn ?? {})) {
+      if (!isValidRange(range)) {
+        throw ErrorFactory.plugin(`Invalid version range '${range}' for dependency '${name}'`)
+      }
+    }
   }
 
   // Helper methods for plugin developers
@@ -1,25 +1,90 @@
+import type { ProjectGenerator } from '../core/project-generator.js'
+import type { ReadlineManager } from '../core/readline-manager.js'
+import type { UIManager } from '../core/ui-manager.js'
+
 export type ReadlineMode = 'async' | 'sync'
-export type PromptType = 'input' | 'select' | 'confirm' | 'multiselect'
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+export type TemplateFilter = (value: unknown) => string
+export type PromptType =
+  | 'input'
+  | 'select'
+  | 'confirm'
+  | 'multiselect'
+  | 'autocomplete'
+  | 'password'
+  | 'number'
+  | 'editor'
 
 export interface ShowWelcomeOptions {
   message: string
 }
 
+export interface PromptChoice {
+  name: string
+  value: unknown
+  description?: string
+}
+
+export interface PromptGroup {
+  name: string
+  /** Heading shown before the group's first prompt, the group name by default */
+  title?: string
+  description?: string
+}
+
 export interface PromptConfig {
   name: string
   type: PromptType
   message: string
   default?: unknown
-  choices?: Array<{ name: string; value: unknown; description?: string }>
-  validate?: ValidationRule
-  when?: (answers: Record<string, unknown>) => boolean
-  transform?: (value: unknown) => unknown
+  /** The choices, or a function computing them from the previous answers */
+  choices?:
+    | Array<PromptChoice>
+    | ((answers: Record<string, unknown>) => PromptChoice[] | Promise<PromptChoice[]>)
+  /** Loads the choices of an `autocomplete` prompt for the text typed so far */
+  source?: (
+    input: string,
+    answers: Record<string, unknown>,
+  ) => PromptChoice[] | Promise<PromptChoice[]>
+  /** A rule, or the name of one of the `customValidators` or of a plugin's `validators` */
+  validate?: ValidationRule | string
+  when?: (answers: Record<string, unknown>) => boolean | Promise<boolean>
+  transform?: (value: unknown) => unknown | Promise<unknown>
+  /**
+   * Set to false to not expose the prompt as a `--<name>` command line option.
+   * Password prompts are only exposed when set to true.
+   */
+  flag?: boolean
+  /** Smallest accepted value of a `number` prompt */
+  min?: number
+  /** Largest accepted value of a `number` prompt */
+  max?: number
+  /** Accepted increments of a `number` prompt, counted from `min` (or 0) */
+  step?: number
+  /** Only accept whole numbers in a `number` prompt */
+  integer?: boolean
+  /** Name of the group (step) the prompt belongs to, see `CLIConfig.groups` */
+  group?: string
+  /** File extension of the temp file opened by an `editor` prompt, e.g. `.md` for syntax highlighting */
+  extension?: string
+  /** Character echoed for each typed character of a `password` prompt, `*` by default; `''` hides the input */
+  mask?: string
+  /** Single-letter short alias for the prompt's command line option */
+  alias?: string
+  /** Set to false to not remember the answer as the default for the next run; `projectName` has to opt in with true */
+  persist?: boolean
 }
 
 export interface Files {
+  /** Output path, rendered with the template engine, e.g. `src/{{componentName}}.tsx` */
   path: string
-  content: string | ((answers: Record<string, unknown>) => string)
+  /** File body; strings are rendered with the template engine */
+  content?: string | ((answers: Record<string, unknown>) => string)
+  /** Absolute path of a file on disk to use instead of `content`; it is streamed when `raw` */
+  source?: string
   condition?: (answers: Record<string, unknown>) => boolean
+  /** Write the file as-is without template rendering, e.g. binary files */
+  raw?: boolean
 }
 
 export type Version =
@@ -39,25 +104,106 @@ export interface TemplateConfig {
   files: Array<Files>
   dependencies?: Dependencies
   scripts?: Record<string, string>
+  packageManager?: PackageManager
+  /** Extra filters for file templates, e.g. `{{name | shout}}` */
+  filters?: Record<string, TemplateFilter>
   postInstall?: (projectPath: string, answers: Record<string, unknown>) => Promise<void>
 }
 
+/**
+ * Contents of a template directory's manifest (`template.json`, or YAML).
+ * Dependency maps use the package.json field names.
+ */
+export interface TemplateManifest {
+  name?: string
+  description?: string
+  dependencies?: Record<string, Version>
+  devDependencies?: Record<string, Version>
+  peerDependencies?: Record<string, Version>
+  scripts?: Record<string, string>
+  packageManager?: PackageManager
+  /** Extra ignore globs, added to `TemplateDirectoryOptions.ignore` */
+  ignore?: string[]
+}
+
+export interface TemplateDirectoryOptions extends Partial<Omit<TemplateConfig, 'files'>> {
+  /** Globs of files or directories to leave out, e.g. `*.log` or `dist/**` */
+  ignore?: string[]
+  /** File name renames, merged over the defaults such as `_gitignore` -> `.gitignore` */
+  renames?: Record<string, string>
+  /** Manifest file name relative to the directory, `template.json` by default */
+  manifest?: string
+}
+
+export interface CommandArgument {
+  name: string
+  description?: string
+  required?: boolean
+  variadic?: boolean
+}
+
+export interface CommandOption {
+  flags: string
+  description?: string
+  default?: unknown
+}
+
+export interface CommandConfig {
+  name: string
+  description: string
+  aliases?: Array<string>
+  arguments?: Array<CommandArgument>
+  options?: Array<CommandOption>
+  commands?: Array<CommandConfig>
+  action?: (args: Record<string, unknown>, options: Record<string, unknown>) => Promise<void> | void
+}
+
+export interface HelpInfo {
+  name: string
+  description: string
+  version?: string
+  usage: string
+  arguments: Array<{ name: string; description?: string; required: boolean; variadic: boolean }>
+  options: Array<{ flags: string; description?: string; defaultValue?: unknown }>
+  commands: Array<{ name: string; aliases: Array<string>; description: string; usage: string }>
+  templates?: Array<{ name: string; description: string }>
+}
+
+export type HelpFormatter = (info: HelpInfo, theme: UITheme) => string
+
 export interface CLIConfig {
   name: string
   version: string
   description: string
   prompts: Array<PromptConfig>
+  /** Titles and descriptions of the prompt groups referenced by `PromptConfig.group` */
+  groups?: Array<PromptGroup>
   templates: Array<TemplateConfig>
-  theme?: UITheme
+  commands?: Array<CommandConfig>
+  helpFormatter?: HelpFormatter
+  /** A theme, or the name of a built-in theme (see `themes`) or of a theme provided by a plugin */
+  theme?: UITheme | string
   readlineMode?: ReadlineMode
   allowModeSelection?: boolean
   skipInstall?: boolean
   customValidators?: Record<string, ValidationRule>
-  plugins?: Array<PluginConfig>
+  /** Plugins, or modules to load them from (see `PluginSpec`) */
+  plugins?: Array<PluginSpec>
+  /** Directory that plugin paths and package names are resolved from; defaults to the CLI's package (see `cliRoot()`) */
+  root?: string
+  conflictStrategy?: ConflictStrategy
+  packageManager?: PackageManager
+  /** Set to false to not remember answers between runs (see `AnswerHistory`) */
+  history?: boolean
+  /** Run every plugin hook one plugin at a time, see `PluginManagerOptions.sequential` */
+  sequentialHooks?: boolean
 }
 
 export interface ValidationRule {
-  validate: (value: unknown, answers?: Record<string, unknown>) => boolean | string
+  validate: (
+    value: unknown,
+    answers?: Record<string, unknown>,
+  ) => boolean | string | Promise<boolean | string>
   message?: string
 }
 
@@ -78,6 +224,78 @@ export interface GeneratorConfig {
   template: string
   answers: Record<string, unknown>
   outputPath: string
+  conflictStrategy?: ConflictStrategy
+  /** Leave partially generated files on disk when generation fails */
+  keepOnFailure?: boolean
+  packageManager?: PackageManager
+  /**
+   * Set to false to resolve conflicts without asking: `prompt-per-file` keeps the
+   * existing files and `merge` applies the merge
+   */
+  interactive?: boolean
+}
+
+export type ConflictStrategy = 'abort' | 'overwrite' | 'skip' | 'prompt-per-file' | 'merge'
+
+export type ConflictResolution = 'overwrite' | 'skip'
+
+export interface FileConflict {
+  /** Path relative to the project directory */
+  path: string
+  /** Absolute path of the existing file */
+  filePath: string
+  strategy: ConflictStrategy
+  existing: string
+  /** Contents that would be written; the merged contents for the `merge` strategy */
+  incoming: string
+  /** Binary files have no text contents to diff; `existing` and `incoming` are empty */
+  binary?: boolean
+}
+
+export interface ProjectGeneratorOptions {
+  resolveConflict?: (conflict: FileConflict) => Promise<ConflictResolution>
+  /** Plugins whose generate and install hooks run during `generate()` */
+  pluginManager?: PluginAdapter
+}
+
+export interface PlannedFile {
+  path: string
+  size: number
+  /**
+   * Set when the file already exists: it is overwritten, merged with the existing
+   * contents, or the user is asked (see `ConflictStrategy`)
+   */
+  conflict?: 'overwrite' | 'merge' | 'prompt'
+}
+
+export interface GenerationPlan {
+  projectPath: string
+  files: Array<PlannedFile>
+  packageJson: Record<string, unknown>
+  install: boolean
+  packageManager: PackageManager
+  postInstall: boolean
+}
+
+/**
+ * Outcome of `CLIBuilder.run()`: `dry-run` when only a plan was shown, `cancelled`
+ * when the user aborted at the answer review.
+ */
+export type RunStatus = 'success' | 'dry-run' | 'cancelled' | 'error'
+
+export interface RunResult {
+  status: RunStatus
+  /** The answers collected before the run finished or failed; password answers are `REDACTED` */
+  answers: PromptResult
+  /** The generated (or, for a dry run, planned) project directory */
+  projectPath?: string
+  /** The error when `status` is `error` */
+  error?: Error
+}
+
+export interface SummaryRow {
+  label: string
+  value: string
 }
 
 export interface PromptResult {
@@ -85,6 +303,14 @@ export interface PromptResult {
 }
 
 // Plugin System Types
+/** A parsed semantic version, as returned by `parseVersion()` */
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  prerelease: Array<string | number>
+}
+
 export interface PluginConfig {
   name: string
   version: string
@@ -93,14 +319,99 @@ export interface PluginConfig {
   templates?: Array<TemplateConfig>
   validators?: Record<string, ValidationRule>
   themes?: Record<string, UITheme>
+  /** Plugins that must be installed, with a semver range for their version, e.g. `{ git: '^1.2.0' }` */
+  dependsOn?: Record<string, string>
+  /** Plugins whose hooks should run after this plugin's; ignored when they are not installed */
+  before?: Array<string>
+  /** Plugins whose hooks should run before this plugin's; ignored when they are not installed */
+  after?: Array<string>
+  /** Run as early (`pre`) or as late (`post`) as the other ordering constraints allow */
+  enforce?: 'pre' | 'post'
+}
+
+/**
+ * A plugin, a `PluginFactory`, or a module exporting either: a path relative to
+ * `CLIConfig.root` (`'./plugins/lint.js'`) or a package name (`'@acme/cli-plugin-docker'`).
+ * Factories and modules can be paired with the options to create the plugin with.
+ */
+export type PluginSpec =
+  | PluginConfig
+  | PluginFactory<any>
+  | string
+  | [string | PluginFactory<any>, Record<string, unknown>]
+
+/**
+ * Creates a plugin from its options and the services of the CLI. Options are an
+ * empty object when the plugin is listed without any.
+ */
+export type PluginFactory<Options extends Record<string, unknown> = Record<string, unknown>> = (
+  options: Options,
+  context: PluginContext,
+) => PluginConfig | Promise<PluginConfig>
+
+/** Messages from a plugin, shown through the `UIManager` and prefixed with the plugin name */
+export interface PluginLogger {
+  info(message: string): void
+  success(message: string): void
+  warn(message: string): void
+  error(message: string): void
+}
+
+/** The services of the CLI that a `PluginFactory` can use in the plugin it creates */
+export interface PluginContext {
+  ui: UIManager
+  logger: PluginLogger
+  /** Asks extra questions, e.g. from a `beforeGenerate` hook */
+  readline: ReadlineManager
+  /** Writes extra files into the project while it is generated, see `ProjectGenerator.writeFile()` */
+  generator: ProjectGenerator
+  /** Key-value store shared by all plugins of the CLI */
+  store: Map<string, unknown>
 }
 
+/**
+ * Plugin hooks. `beforePrompt`, `afterPrompt`, `afterAnswers` and `beforeWriteFile` run
+ * one plugin after another: the value a plugin returns is passed on to the next plugin,
+ * and returning nothing keeps the value unchanged. The other hooks run concurrently
+ * unless `PluginManagerOptions.sequential` is set.
+ */
 export interface PluginHooks {
   beforeGenerate?: (config: GeneratorConfig) => Promise<void> | void
   afterGenerate?: (config: GeneratorConfig, projectPath: string) => Promise<void> | void
   beforeInstall?: (projectPath: string) => Promise<void> | void
   afterInstall?: (projectPath: string) => Promise<void> | void
   onError?: (error: Error, context: string) => Promise<void> | void
+  /** Runs before a prompt is asked; return a prompt to ask instead, e.g. with another default */
+  beforePrompt?: (
+    prompt: PromptConfig,
+    answers: PromptResult,
+  ) => PromptConfig | void | Promise<PromptConfig | void>
+  /** Runs after a prompt is answered (and transformed); return a value to replace the answer */
+  afterPrompt?: (prompt: PromptConfig, value: unknown, answers: PromptResult) => unknown
+  /** Runs once all answers are collected; return answers to use instead, e.g. with derived values */
+  afterAnswers?: (answers: PromptResult) => PromptResult | void | Promise<PromptResult | void>
+  /**
+   * Runs before each project file is written; return new content to write instead,
+   * or false to skip the file. `content` is undefined for binary (`raw`) files, which are
+   * streamed from their `source` without being read; returning a string replaces them.
+   */
+  beforeWriteFile?: (
+    file: ProjectFile,
+    content: string | undefined,
+  ) => string | false | void | Promise<string | false | void>
+  /** Runs when `CLIBuilder.run()` finishes, whatever its outcome */
+  onComplete?: (result: RunResult) => Promise<void> | void
+}
+
+export interface ProjectFile {
+  /** Path relative to the project directory */
+  path: string
+  projectPath: string
+}
+
+export interface PluginManagerOptions {
+  /** Run hooks such as `beforeGenerate` one plugin at a time instead of concurrently */
+  sequential?: boolean
 }
 
 export interface PluginAdapter {
@@ -110,7 +421,7 @@ export interface PluginAdapter {
   uninstall(name: string): Promise<void>
   getPlugin(name: string): PluginConfig | undefined
   listPlugins(): Array<PluginConfig>
-  executeHook(hookName: keyof PluginHooks, ...args: Array<any>): Promise<void>
+  executeHook(hookName: keyof PluginHooks, ...args: Array<any>): Promise<unknown>
 }
 
 // Custom Error Types
@@ -0,0 +1,53 @@
+import { resolve } from 'node:path'
+import { ErrorFactory } from '../errors/index.js'
+import type { PromptResult } from '../types/index.d.js'
+import { readFile } from './fs.js'
+import { parseYaml } from './yaml.js'
+
+/**
+ * Loads pre-recorded answers from a JSON or YAML file.
+ * The format is chosen from the extension: `.yaml`/`.yml` are parsed as YAML,
+ * everything else as JSON.
+ *
+ * @param filePath - Path to the answers file, relative to the current directory
+ * @returns The answers keyed by prompt name
+ * @throws {ConfigurationError} When the file cannot be read, parsed or is not an object
+ *
+ * @example
+ * ```typescript
+ * const answers = await loadAnswersFile('answers.yaml');
+ * ```
+ */
+export async function loadAnswersFile(filePath: string): Promise<PromptResult> {
+  const absolutePath = resolve(filePath)
+  const context = { operation: 'loadAnswersFile', filePath: absolutePath }
+
+  let source: string
+  try {
+    source = await readFile(absolutePath)
+  } catch (error) {
+    throw ErrorFactory.configuration(
+      `Cannot read answers file '${filePath}': ${error instanceof Error ? error.message : error}`,
+      context,
+    )
+  }
+
+  let parsed: unknown
+  try {
+    parsed = /\.ya?ml$/i.test(absolutePath) ? parseYaml(source) : JSON.parse(source)
+  } catch (error) {
+    throw ErrorFactory.configuration(
+      `Invalid answers file '${filePath}': ${error instanceof Error ? error.message : error}`,
+      context,
+    )
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw ErrorFactory.configuration(
+      `Answers file '${filePath}' must contain an object of answers`,
+      context,
+    )
+  }
+
+  return parsed as PromptResult
+}
@@ -0,0 +1,117 @@
+/**
+ * Line-based diff and merge helpers used to preview and resolve file conflicts.
+ */
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove'
+  line: string
+}
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence.
+ *
+ * @param before - The original text
+ * @param after - The new text
+ * @returns The lines of both texts, marked as unchanged, added or removed
+ *
+ * @example
+ * ```typescript
+ * diffLines('a\nb', 'a\nc');
+ * // [{ type: 'same', line: 'a' }, { type: 'remove', line: 'b' }, { type: 'add', line: 'c' }]
+ * ```
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', line: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'remove', line: a[i++] })
+    } else {
+      result.push({ type: 'add', line: b[j++] })
+    }
+  }
+  while (i < a.length) result.push({ type: 'remove', line: a[i++] })
+  while (j < b.length) result.push({ type: 'add', line: b[j++] })
+
+  return result
+}
+
+/**
+ * Recursively merges `incoming` into `existing`. Objects are merged key by key,
+ * arrays are combined without duplicates and, for conflicting scalars, the
+ * existing value wins so local edits are preserved.
+ *
+ * @param existing - The value currently on disk
+ * @param incoming - The value produced by the template
+ * @returns The merged value
+ */
+export function mergeValues(existing: unknown, incoming: unknown): unknown {
+  if (Array.isArray(existing) && Array.isArray(incoming)) {
+    const merged = [...existing]
+    for (const item of incoming) {
+      if (!merged.some(e => JSON.stringify(e) === JSON.stringify(item))) merged.push(item)
+    }
+    return merged
+  }
+
+  if (isPlainObject(existing) && isPlainObject(incoming)) {
+    const merged: Record<string, unknown> = { ...existing }
+    for (const [key, value] of Object.entries(incoming)) {
+      merged[key] = key in existing ? mergeValues(existing[key], value) : value
+    }
+    return merged
+  }
+
+  return existing === undefined ? incoming : existing
+}
+
+/**
+ * Merges the contents of a file that already exists with the template's version.
+ * JSON files are merged structurally with `mergeValues()`; other files get the
+ * template's lines that are missing from the existing file appended.
+ *
+ * @param filePath - The file path, used to detect JSON files
+ * @param existing - The current file contents
+ * @param incoming - The contents produced by the template
+ * @returns The merged contents
+ */
+export function mergeContents(filePath: string, existing: string, incoming: string): string {
+  if (filePath.endsWith('.json')) {
+    try {
+      const merged = mergeValues(JSON.parse(existing), JSON.parse(incoming))
+      return JSON.stringify(merged, null, 2)
+    } catch {
+      // Not valid JSON on one side: fall back to a line merge
+    }
+  }
+
+  const lines = existing.split('\n')
+  const missing = incoming.split('\n').filter(line => line.trim() !== '' && !lines.includes(line))
+  if (missing.length === 0) return existing
+
+  const base = existing.endsWith('\n') || existing === '' ? existing : `${existing}\n`
+  return `${base}${missing.join('\n')}\n`
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
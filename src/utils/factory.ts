@@ -1,10 +1,15 @@
 import { CLIBuilder } from '../core/cli-builder.js'
-import { PluginManager } from '../plugins/plugin-manager.js'
-import type { CLIConfig, PluginConfig, PromptConfig, TemplateConfig } from '../types/index.d.js'
+import type {
+  CLIConfig,
+  PluginConfig,
+  PluginFactory,
+  PromptConfig,
+  TemplateConfig,
+} from '../types/index.d.js'
 
 /**
  * Creates a new CLI instance with the provided configuration.
- * Automatically initializes the plugin system if plugins are provided.
+ * Plugins in `config.plugins` are installed by the CLI before it runs.
  *
  * @param config - The CLI configuration object
  * @returns A new CLIBuilder instance
@@ -24,23 +29,7 @@ import type { CLIConfig, PluginConfig, PromptConfig, TemplateConfig } from '../t
  * ```
  */
 export function createCLI(config: CLIConfig): CLIBuilder {
-  const cli = new CLIBuilder(config)
-
-  // Initialize plugin system if plugins are provided
-  if (config.plugins && config.plugins.length > 0) {
-    const pluginManager = new PluginManager()
-
-    // Install all plugins
-    config.plugins.forEach(async plugin => {
-      try {
-        await pluginManager.install(plugin)
-      } catch (error) {
-        console.warn(`Failed to install plugin '${plugin.name}':`, error)
-      }
-    })
-  }
-
-  return cli
+  return new CLIBuilder(config)
 }
 
 /**
@@ -86,11 +75,12 @@ export function definePrompt(config: PromptConfig): PromptConfig {
 }
 
 /**
- * Defines a plugin configuration with type safety.
- * This is a helper function that provides better TypeScript support.
+ * Defines a plugin with type safety, either as a configuration or as a factory
+ * that creates it from options and the plugin context (`ui`, `logger`, `readline`,
+ * `generator` and a `store` shared by all plugins).
  *
- * @param config - The plugin configuration
- * @returns The same plugin configuration (for type safety)
+ * @param plugin - The plugin configuration, or a function that returns it
+ * @returns The same configuration or factory (for type safety)
  *
  * @example
  * ```typescript
@@ -103,8 +93,24 @@ export function definePrompt(config: PromptConfig): PromptConfig {
  *   templates: [...],
  *   validators: {...}
  * });
+ *
+ * const docker = definePlugin((options: { image?: string }, { generator }) => ({
+ *   name: 'docker',
+ *   version: '1.0.0',
+ *   hooks: {
+ *     afterGenerate: async () => {
+ *       await generator.writeFile('Dockerfile', `FROM ${options.image ?? 'node:20'}\n`);
+ *     }
+ *   }
+ * }));
+ *
+ * createCLI({ ..., plugins: [myPlugin, [docker, { image: 'node:22-alpine' }]] });
  * ```
  */
-export function definePlugin(config: PluginConfig): PluginConfig {
-  return config
+export function definePlugin(config: PluginConfig): PluginConfig
+export function definePlugin<Options extends Record<string, unknown>>(
+  factory: PluginFactory<Options>,
+): PluginFactory<Options>
+export function definePlugin(plugin: PluginConfig | PluginFactory): PluginConfig | PluginFactory {
+  return plugin
 }
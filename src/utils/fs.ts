@@ -1,5 +1,14 @@
-import { mkdir, writeFile as fsWriteFile } from 'node:fs/promises'
+import { createReadStream, createWriteStream } from 'node:fs'
+import {
+  access,
+  mkdir,
+  open,
+  readdir,
+  readFile as fsReadFile,
+  writeFile as fsWriteFile,
+} from 'node:fs/promises'
 import { dirname } from 'node:path'
+import { pipeline } from 'node:stream/promises'
 
 /**
  * Utility functions to replace fs-extra functionality using only Node.js built-in modules.
@@ -35,6 +44,77 @@ export async function writeFile(filePath: string, data: string): Promise<void> {
   await fsWriteFile(filePath, data, 'utf8')
 }
 
+/**
+ * Checks whether a file or directory exists.
+ *
+ * @param path - The path to check
+ * @returns True when the path exists
+ */
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks whether a directory is missing or has no entries.
+ *
+ * @param dirPath - The directory path to check
+ * @returns True when the directory does not exist or is empty
+ */
+export async function isEmptyDir(dirPath: string): Promise<boolean> {
+  try {
+    return (await readdir(dirPath)).length === 0
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return true
+    }
+    throw error
+  }
+}
+
+/**
+ * Reads a UTF-8 text file.
+ *
+ * @param filePath - The file path to read from
+ * @returns The file contents
+ */
+export async function readFile(filePath: string): Promise<string> {
+  return await fsReadFile(filePath, 'utf8')
+}
+
+/**
+ * Copies a file byte-for-byte by streaming it, so large files are never held in memory.
+ * The directory structure is created if it doesn't exist.
+ *
+ * @param source - The file to copy
+ * @param target - The destination path
+ */
+export async function copyFile(source: string, target: string): Promise<void> {
+  await ensureDir(dirname(target))
+  await pipeline(createReadStream(source), createWriteStream(target))
+}
+
+/**
+ * Checks whether a file looks binary: it contains a NUL byte in its first 8 KB.
+ *
+ * @param filePath - The file path to check
+ * @returns True for binary files
+ */
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+  const handle = await open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(8192)
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0)
+    return buffer.subarray(0, bytesRead).includes(0)
+  } finally {
+    await handle.close()
+  }
+}
+
 /**
  * Writes an object to a JSON file, with optional formatting.
  * The directory structure is created if it doesn't exist.
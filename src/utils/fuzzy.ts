@@ -0,0 +1,58 @@
+import type { PromptChoice } from '../types/index.d.js'
+
+/**
+ * Scores how well `query` fuzzy-matches `text`: every query character must appear in
+ * `text` in order (case-insensitive). Consecutive characters and characters at the
+ * start of a word score higher, so `rr` ranks `react-router` above `error`.
+ *
+ * @param query - The text typed by the user
+ * @param text - The text to match against
+ * @returns The score (higher is better), or null when `text` does not match
+ *
+ * @example
+ * ```typescript
+ * fuzzyScore('nxt', 'Next.js'); // > 0
+ * fuzzyScore('xn', 'Next.js');  // null
+ * ```
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  const haystack = text.toLowerCase()
+  if (!needle) return 0
+
+  let score = 0
+  let position = -1
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1)
+    if (next === -1) return null
+
+    score += 1
+    if (next === position + 1) score += 3
+    if (next === 0 || /[^a-z0-9]/.test(haystack[next - 1])) score += 2
+    position = next
+  }
+
+  // Prefer shorter texts among equally good matches
+  return score - haystack.length / 100
+}
+
+/**
+ * Filters choices by fuzzy-matching their names and sorts them best match first.
+ * The original order is kept for an empty query and for equal scores.
+ *
+ * @param query - The text typed by the user
+ * @param choices - The choices to filter
+ * @returns The matching choices
+ */
+export function fuzzyFilter(query: string, choices: PromptChoice[]): PromptChoice[] {
+  if (!query.trim()) return choices
+
+  return choices
+    .map((choice, index) => ({ choice, index, score: fuzzyScore(query, choice.name) }))
+    .filter(
+      (entry): entry is { choice: PromptChoice; index: number; score: number } =>
+        entry.score !== null,
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.choice)
+}
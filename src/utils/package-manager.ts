@@ -0,0 +1,102 @@
+import { join } from 'node:path'
+import type { PackageManager } from '../types/index.d.js'
+import { pathExists } from './fs.js'
+
+/**
+ * Package managers supported for installing dependencies and running scripts.
+ */
+export const packageManagers: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun']
+
+const lockfiles: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+]
+
+/**
+ * Checks whether a value names a supported package manager.
+ *
+ * @param value - The value to check
+ * @returns True for `npm`, `pnpm`, `yarn` or `bun`
+ */
+export function isPackageManager(value: unknown): value is PackageManager {
+  return typeof value === 'string' && packageManagers.includes(value as PackageManager)
+}
+
+/**
+ * Detects the package manager that launched the current process, e.g. through
+ * `pnpm create` or `bunx`, from the `npm_config_user_agent` environment variable.
+ *
+ * @param userAgent - The user agent string, defaults to `process.env.npm_config_user_agent`
+ * @returns The package manager, or undefined when it cannot be told
+ */
+export function detectFromUserAgent(
+  userAgent: string | undefined = process.env.npm_config_user_agent,
+): PackageManager | undefined {
+  const name = userAgent?.split(' ')[0]?.split('/')[0]
+  return isPackageManager(name) ? name : undefined
+}
+
+/**
+ * Detects the package manager from the lockfile present in a directory.
+ *
+ * @param dir - The directory to look in
+ * @returns The package manager, or undefined when there is no known lockfile
+ */
+export async function detectFromLockfile(dir: string): Promise<PackageManager | undefined> {
+  for (const [lockfile, manager] of lockfiles) {
+    if (await pathExists(join(dir, lockfile))) {
+      return manager
+    }
+  }
+  return undefined
+}
+
+/**
+ * Picks the package manager to use. The first supported value of `preferred`
+ * wins, then the user agent, then the lockfile in `cwd`, and finally npm.
+ *
+ * @param options - Explicit choices in priority order and the directory to inspect
+ * @returns The package manager to use
+ *
+ * @example
+ * ```typescript
+ * const pm = await detectPackageManager({ preferred: [options.packageManager], cwd: process.cwd() });
+ * ```
+ */
+export async function detectPackageManager(
+  options: { preferred?: Array<unknown>; cwd?: string; userAgent?: string } = {},
+): Promise<PackageManager> {
+  const explicit = options.preferred?.find(isPackageManager)
+  if (explicit) return explicit
+
+  const fromAgent = detectFromUserAgent(options.userAgent)
+  if (fromAgent) return fromAgent
+
+  return (await detectFromLockfile(options.cwd ?? process.cwd())) ?? 'npm'
+}
+
+/**
+ * Returns the command that installs dependencies.
+ *
+ * @param manager - The package manager
+ * @returns The install command, e.g. `pnpm install`
+ */
+export function getInstallCommand(manager: PackageManager): string {
+  return manager === 'yarn' ? 'yarn' : `${manager} install`
+}
+
+/**
+ * Returns the command that runs a package.json script.
+ *
+ * @param manager - The package manager
+ * @param script - The script name
+ * @returns The run command, e.g. `npm run dev` or `pnpm dev`
+ */
+export function getRunCommand(manager: PackageManager, script: string): string {
+  return manager === 'npm' || manager === 'bun'
+    ? `${manager} run ${script}`
+    : `${manager} ${script}`
+}
@@ -0,0 +1,40 @@
+import type { PromptConfig, PromptResult } from '../types/index.d.js'
+
+/**
+ * Placeholder shown instead of secret answers.
+ */
+export const REDACTED = '********'
+
+/**
+ * Whether a prompt collects a secret that must never be printed or stored.
+ *
+ * @param prompt - The prompt configuration
+ * @returns True for password prompts
+ */
+export function isSecretPrompt(prompt: PromptConfig): boolean {
+  return prompt.type === 'password'
+}
+
+/**
+ * Returns a copy of the answers with the values of secret prompts replaced by
+ * `REDACTED`. Use it before logging, displaying or saving answers.
+ *
+ * @param answers - The collected answers
+ * @param prompts - The prompt configurations the answers belong to
+ * @returns The answers, safe to print
+ *
+ * @example
+ * ```typescript
+ * console.log(redactAnswers(answers, config.prompts));
+ * // { projectName: 'my-app', npmToken: '********' }
+ * ```
+ */
+export function redactAnswers(answers: PromptResult, prompts: PromptConfig[]): PromptResult {
+  const result = { ...answers }
+  for (const prompt of prompts) {
+    if (isSecretPrompt(prompt) && result[prompt.name] !== undefined) {
+      result[prompt.name] = REDACTED
+    }
+  }
+  return result
+}
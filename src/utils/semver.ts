@@ -0,0 +1,300 @@
+import { ErrorFactory } from '../errors/index.js'
+import type { SemVer } from '../types/index.d.js'
+
+/**
+ * Minimal semantic versioning support for plugin version constraints.
+ *
+ * Ranges follow npm syntax: exact versions (`1.2.3`, `=1.2.3`), comparators
+ * (`>=1.2.0 <2.0.0`), caret (`^1.2.0`) and tilde (`~1.2.0`) ranges, X-ranges
+ * (`1.x`, `1.2.*`, `*`), hyphen ranges (`1.0.0 - 2.0.0`) and `||` alternatives.
+ * As in npm, a pre-release version only satisfies a range when one of the
+ * comparators of the same alternative is a pre-release of the same
+ * `major.minor.patch`: `>=1.2.0-rc.0` accepts `1.2.0-rc.1`, `^1.0.0` does not
+ * accept `1.2.0-rc.1`.
+ */
+
+type Operator = '<' | '<=' | '>' | '>=' | '='
+
+interface Comparator {
+  operator: Operator
+  version: SemVer
+}
+
+/** A version where trailing components may be missing or wildcards (`x`, `X`, `*`) */
+interface PartialVersion {
+  major: number | null
+  minor: number | null
+  patch: number | null
+  prerelease: Array<string | number>
+}
+
+const IDENTIFIERS = String.raw`[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*`
+const VERSION = new RegExp(
+  String.raw`^(\d+)\.(\d+)\.(\d+)(?:-(${IDENTIFIERS}))?(?:\+${IDENTIFIERS})?$`,
+)
+const PART = String.raw`(\d+|[xX*])`
+const PARTIAL = new RegExp(
+  String.raw`^v?${PART}(?:\.${PART}(?:\.${PART}(?:-(${IDENTIFIERS}))?(?:\+${IDENTIFIERS})?)?)?$`,
+)
+
+const parseIdentifiers = (value: string | undefined): Array<string | number> =>
+  value ? value.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : []
+
+/**
+ * Parses a full version such as `1.2.3` or `2.0.0-beta.1`.
+ *
+ * @param version - The version to parse
+ * @returns The parsed version, or null when it is not a valid semantic version
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION.exec(version.trim())
+  if (!match) return null
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parseIdentifiers(match[4]),
+  }
+}
+
+/**
+ * Compares two parsed versions by precedence.
+ *
+ * @returns A negative number, zero or a positive number when `a` is lower, equal or higher
+ */
+function compare(a: SemVer, b: SemVer): number {
+  const main = a.major - b.major || a.minor - b.minor || a.patch - b.patch
+  if (main !== 0) return main
+
+  // A pre-release has lower precedence than the release itself
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i]
+    const y = b.prerelease[i]
+    if (x === undefined) return -1
+    if (y === undefined) return 1
+    if (x === y) continue
+    if (typeof x === 'number' && typeof y === 'number') return x - y
+    // Numeric identifiers have lower precedence than alphanumeric ones
+    if (typeof x === 'number') return -1
+    if (typeof y === 'number') return 1
+    return x < y ? -1 : 1
+  }
+  return 0
+}
+
+/**
+ * Compares two versions by precedence, e.g. for sorting.
+ *
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number, zero or a positive number when `a` is lower, equal or higher
+ * @throws {ValidationError} When either version is not a valid semantic version
+ */
+export function compareVersions(a: string, b: string): number {
+  const [x, y] = [a, b].map(version => {
+    const parsed = parseVersion(version)
+    if (!parsed) {
+      throw ErrorFactory.validation(`Invalid version '${version}'`, {
+        operation: 'compareVersions',
+      })
+    }
+    return parsed
+  })
+  return compare(x, y)
+}
+
+const version = (major: number, minor = 0, patch = 0): SemVer => ({
+  major,
+  minor,
+  patch,
+  prerelease: [],
+})
+
+/**
+ * Fills the missing components of a partial version with zeros.
+ */
+const lowest = (p: PartialVersion): SemVer => ({
+  major: p.major ?? 0,
+  minor: p.minor ?? 0,
+  patch: p.patch ?? 0,
+  prerelease: p.prerelease,
+})
+
+/**
+ * Returns the first version above everything a partial version matches, e.g. `2.0.0` for `1.x`.
+ */
+const nextAfter = (p: PartialVersion): SemVer =>
+  p.minor === null ? version(p.major! + 1) : version(p.major!, p.minor + 1)
+
+/**
+ * Converts one comparator of a range, such as `^1.2.0` or `>1.x`, to plain comparators.
+ *
+ * @param token - The comparator text
+ * @returns The comparators; an empty list matches any version
+ * @throws {Error} When the comparator cannot be parsed
+ */
+function desugar(token: string): Comparator[] {
+  const [, prefix = '', rest] = /^(\^|~|[<>]=?|=)?(.*)$/.exec(token)!
+  const match = PARTIAL.exec(rest)
+  if (!match) throw new Error(`invalid comparator '${token}'`)
+
+  const [major, minor, patch] = match
+    .slice(1, 4)
+    .map(part => (part === undefined || /^[xX*]$/.test(part) ? null : Number(part)))
+  const partial: PartialVersion = {
+    major,
+    // Anything after a wildcard is a wildcard too
+    minor: major === null ? null : minor,
+    patch: major === null || minor === null ? null : patch,
+    prerelease: parseIdentifiers(match[4]),
+  }
+  const exact = partial.patch !== null
+
+  if (partial.major === null) {
+    // `*`, `x`, `>=*`: any version; `<*` and `>*`: none
+    return prefix === '<' || prefix === '>' ? [{ operator: '<', version: version(0) }] : []
+  }
+
+  switch (prefix) {
+    case '^': {
+      const from = lowest(partial)
+      const to =
+        partial.major > 0 || partial.minor === null
+          ? version(partial.major + 1)
+          : partial.minor > 0 || partial.patch === null
+            ? version(0, partial.minor + 1)
+            : version(0, 0, partial.patch + 1)
+      return [
+        { operator: '>=', version: from },
+        { operator: '<', version: to },
+      ]
+    }
+    case '~':
+      return [
+        { operator: '>=', version: lowest(partial) },
+        { operator: '<', version: nextAfter({ ...partial, patch: null }) },
+      ]
+    case '>':
+      return [
+        { operator: exact ? '>' : '>=', version: exact ? lowest(partial) : nextAfter(partial) },
+      ]
+    case '<=':
+      return [
+        { operator: exact ? '<=' : '<', version: exact ? lowest(partial) : nextAfter(partial) },
+      ]
+    case '<':
+    case '>=':
+      return [{ operator: prefix, version: lowest(partial) }]
+    default:
+      return exact
+        ? [{ operator: '=', version: lowest(partial) }]
+        : [
+            { operator: '>=', version: lowest(partial) },
+            { operator: '<', version: nextAfter(partial) },
+          ]
+  }
+}
+
+/**
+ * Parses a range into alternatives, each a list of comparators that must all match.
+ *
+ * @param range - The range, e.g. `^1.2.0 || >=2.1.0 <3`
+ * @returns The alternatives
+ * @throws {ValidationError} When the range cannot be parsed
+ */
+function parseRange(range: string): Comparator[][] {
+  try {
+    return range.split('||').map(alternative => {
+      const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(alternative)
+      if (hyphen) {
+        const [from] = desugar(`>=${hyphen[1]}`)
+        return [from, ...desugar(`<=${hyphen[2]}`)].filter(Boolean)
+      }
+
+      // Allow a space between an operator and its version, e.g. `>= 1.2.0`
+      const tokens = alternative
+        .trim()
+        .replace(/([<>=~^]+)\s+/g, '$1')
+        .split(/\s+/)
+        .filter(Boolean)
+      return tokens.flatMap(desugar)
+    })
+  } catch (error) {
+    throw ErrorFactory.validation(
+      `Invalid version range '${range}': ${error instanceof Error ? error.message : error}`,
+      { operation: 'parseRange' },
+    )
+  }
+}
+
+/**
+ * Whether a string is a valid version range.
+ *
+ * @param range - The range to check
+ * @returns True when `satisfies()` accepts the range
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks whether a version satisfies a range.
+ *
+ * @param version - The version to check
+ * @param range - The range, in npm syntax
+ * @returns False when the version is outside the range or is not a valid version
+ * @throws {ValidationError} When the range cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * satisfies('1.4.2', '^1.2.0');        // true
+ * satisfies('2.0.0', '>=1.0.0 <2.0.0'); // false
+ * ```
+ */
+/**
+ * Whether an alternative may match a version, following npm's pre-release rule.
+ */
+const allowsPrerelease = (version: SemVer, comparators: Comparator[]): boolean =>
+  !version.prerelease.length ||
+  comparators.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch,
+  )
+
+export function satisfies(version: string, range: string): boolean {
+  const alternatives = parseRange(range)
+  const parsed = parseVersion(version)
+  if (!parsed) return false
+
+  return alternatives.some(
+    comparators =>
+      allowsPrerelease(parsed, comparators) &&
+      comparators.every(({ operator, version: bound }) => {
+        const order = compare(parsed, bound)
+        switch (operator) {
+          case '<':
+            return order < 0
+          case '<=':
+            return order <= 0
+          case '>':
+            return order > 0
+          case '>=':
+            return order >= 0
+          default:
+            return order === 0
+        }
+      }),
+  )
+}
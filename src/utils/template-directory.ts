@@ -0,0 +1,174 @@
+import { readdir } from 'node:fs/promises'
+import { basename, join, resolve } from 'node:path'
+import { ErrorFactory } from '../errors/index.js'
+import type {
+  Files,
+  TemplateConfig,
+  TemplateDirectoryOptions,
+  TemplateManifest,
+} from '../types/index.d.js'
+import { isBinaryFile, pathExists, readFile } from './fs.js'
+import { parseYaml } from './yaml.js'
+
+/**
+ * Files that npm strips or mangles when publishing, so templates store them under another name.
+ */
+const defaultRenames: Record<string, string> = {
+  _gitignore: '.gitignore',
+  _npmignore: '.npmignore',
+  _npmrc: '.npmrc',
+}
+
+const defaultIgnore = ['node_modules', '.git', '.DS_Store']
+
+/**
+ * Converts a glob to a regular expression. Supports `*`, `**` and `?`.
+ *
+ * @param glob - The glob pattern
+ * @returns The matching regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/'
+      pattern += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      pattern += '[^/]*'
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Creates a matcher for gitignore-like globs. Patterns without a slash match a file
+ * or directory name at any depth; other patterns match the path from the template root.
+ *
+ * @param globs - The ignore globs
+ * @returns A function telling whether a relative path is ignored
+ */
+function createIgnoreMatcher(globs: string[]): (relativePath: string) => boolean {
+  const matchers = globs.map(glob => {
+    const trimmed = glob.replace(/^\//, '').replace(/\/$/, '')
+    return { byName: !trimmed.includes('/'), regexp: globToRegExp(trimmed) }
+  })
+
+  return relativePath =>
+    matchers.some(({ byName, regexp }) =>
+      regexp.test(byName ? basename(relativePath) : relativePath),
+    )
+}
+
+/**
+ * Reads the manifest of a template directory, if there is one.
+ *
+ * @param manifestPath - Absolute path of the manifest
+ * @returns The manifest, or an empty one when the file does not exist
+ * @throws {TemplateError} When the manifest cannot be parsed
+ */
+async function loadManifest(manifestPath: string): Promise<TemplateManifest> {
+  if (!(await pathExists(manifestPath))) return {}
+
+  try {
+    const source = await readFile(manifestPath)
+    const parsed = /\.ya?ml$/i.test(manifestPath) ? parseYaml(source) : JSON.parse(source)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object')
+    }
+    return parsed as TemplateManifest
+  } catch (error) {
+    throw ErrorFactory.template(
+      `Invalid template manifest '${manifestPath}': ${error instanceof Error ? error.message : error}`,
+      { operation: 'templateFromDirectory', filePath: manifestPath },
+    )
+  }
+}
+
+/**
+ * Builds a template from a folder on disk. Every file becomes a `Files` entry that
+ * points at its `source`; text files are rendered with the template engine when the
+ * project is generated and binary files are copied byte-for-byte. File contents are
+ * not read here.
+ *
+ * A `template.json` manifest in the folder provides the name, description,
+ * dependencies and scripts. Values passed in `options` take precedence.
+ *
+ * @param dir - The template directory
+ * @param options - Ignore globs, renames and template settings
+ * @returns The template configuration
+ * @throws {TemplateError} When the directory does not exist or the manifest is invalid
+ *
+ * @example
+ * ```typescript
+ * const react = await templateFromDirectory('./templates/react', {
+ *   ignore: ['*.log', 'dist/**'],
+ *   postInstall: async projectPath => { ... }
+ * });
+ * ```
+ */
+export async function templateFromDirectory(
+  dir: string,
+  options: TemplateDirectoryOptions = {},
+): Promise<TemplateConfig> {
+  const root = resolve(dir)
+  const { ignore = [], renames = {}, manifest = 'template.json', ...overrides } = options
+
+  if (!(await pathExists(root))) {
+    throw ErrorFactory.template(`Template directory '${dir}' does not exist`, {
+      operation: 'templateFromDirectory',
+      filePath: root,
+    })
+  }
+
+  const manifestData = await loadManifest(join(root, manifest))
+  const isIgnored = createIgnoreMatcher([
+    ...defaultIgnore,
+    ...(manifestData.ignore ?? []),
+    ...ignore,
+  ])
+  const allRenames = { ...defaultRenames, ...renames }
+  const files: Files[] = []
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await readdir(join(root, relativeDir), { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+      if (relativePath === manifest || isIgnored(relativePath)) continue
+
+      if (entry.isDirectory()) {
+        await walk(relativePath)
+      } else if (entry.isFile()) {
+        const source = join(root, relativePath)
+        const name = allRenames[entry.name] ?? entry.name
+        files.push({
+          path: relativeDir ? `${relativeDir}/${name}` : name,
+          source,
+          ...((await isBinaryFile(source)) && { raw: true }),
+        })
+      }
+    }
+  }
+
+  await walk('')
+
+  const { dependencies, devDependencies, peerDependencies } = manifestData
+  return {
+    name: manifestData.name ?? basename(root),
+    description: manifestData.description ?? '',
+    files,
+    ...((dependencies || devDependencies || peerDependencies) && {
+      dependencies: { dependencies, devDepencies: devDependencies, peerDependencies },
+    }),
+    ...(manifestData.scripts && { scripts: manifestData.scripts }),
+    ...(manifestData.packageManager && { packageManager: manifestData.packageManager }),
+    ...overrides,
+  }
+}
@@ -0,0 +1,274 @@
+import { ErrorFactory } from '../errors/index.js'
+import type { TemplateFilter } from '../types/index.d.js'
+
+/**
+ * Lightweight template engine for file contents and paths.
+ *
+ * Supported syntax:
+ * - `{{name}}`, `{{user.name}}` — variables, with `{{name | kebabCase}}` filters
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ * - `{{#each items}}{{this}} {{@index}}{{/each}}`, with `@first` and `@last`
+ * - `\{{name}}` — outputs `{{name}}` literally
+ *
+ * Only identifier expressions are recognised, so code such as JSX `style={{ color: 'red' }}`
+ * passes through untouched. Variables that are not defined are kept verbatim, which leaves
+ * Vue or Angular interpolations in generated files alone.
+ */
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: string[]; source: string }
+  | { type: 'block'; kind: 'if' | 'unless' | 'each'; path: string; body: Node[]; otherwise: Node[] }
+
+interface Scope {
+  value: unknown
+  data: Record<string, unknown>
+}
+
+const PATH = String.raw`(?:this|@index|@first|@last|[A-Za-z_$][\w$]*)(?:\.[A-Za-z_$][\w$]*)*`
+const TAG = new RegExp(
+  String.raw`(\\)?\{\{\s*(?:#(if|unless|each)\s+(${PATH})|\/(if|unless|each)|(else)|(${PATH}(?:\s*\|\s*[A-Za-z_$][\w$]*)*))\s*\}\}`,
+  'g',
+)
+
+/**
+ * Splits an identifier or phrase into lower-case words, e.g. `myApp-name` -> `my app name`.
+ *
+ * @param value - The value to split
+ * @returns The words
+ */
+function words(value: unknown): string[] {
+  return String(value ?? '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+}
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1)
+
+/**
+ * Filters available in every template.
+ */
+export const templateFilters: Record<string, TemplateFilter> = {
+  kebabCase: value => words(value).join('-'),
+  snakeCase: value => words(value).join('_'),
+  camelCase: value =>
+    words(value)
+      .map((word, index) => (index === 0 ? word : capitalize(word)))
+      .join(''),
+  pascalCase: value => words(value).map(capitalize).join(''),
+  upperCase: value => String(value ?? '').toUpperCase(),
+  lowerCase: value => String(value ?? '').toLowerCase(),
+}
+
+/**
+ * Parses a template into a node tree. Block tags that sit alone on a line are removed
+ * together with that line so conditionals do not leave blank lines behind.
+ *
+ * @param source - The template source
+ * @returns The parsed nodes
+ * @throws {TemplateError} When blocks are not properly closed
+ */
+function parse(source: string): Node[] {
+  const root: Node[] = []
+  const stack: Array<{ node: Extract<Node, { type: 'block' }>; inElse: boolean }> = []
+  const current = (): Node[] => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    return top.inElse ? top.node.otherwise : top.node.body
+  }
+  const pushText = (value: string): void => {
+    if (value) current().push({ type: 'text', value })
+  }
+
+  let last = 0
+  for (const match of source.matchAll(TAG)) {
+    const [tag, escaped, open, openPath, close, elseTag, expression] = match
+    let start = match.index
+    let end = start + tag.length
+
+    if (escaped) {
+      pushText(source.slice(last, start) + tag.slice(1))
+      last = end
+      continue
+    }
+
+    if (!expression) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1
+      const newline = source.indexOf('\n', end)
+      const lineEnd = newline === -1 ? source.length : newline
+      if (
+        lineStart >= last &&
+        /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+        /^[ \t]*\r?$/.test(source.slice(end, lineEnd))
+      ) {
+        start = lineStart
+        end = newline === -1 ? source.length : newline + 1
+      }
+    }
+
+    pushText(source.slice(last, start))
+    last = end
+
+    if (open) {
+      const node = {
+        type: 'block' as const,
+        kind: open as 'if' | 'unless' | 'each',
+        path: openPath,
+        body: [],
+        otherwise: [],
+      }
+      current().push(node)
+      stack.push({ node, inElse: false })
+    } else if (close) {
+      const top = stack.pop()
+      if (!top || top.node.kind !== close) {
+        throw ErrorFactory.template(`Unexpected {{/${close}}} in template`)
+      }
+    } else if (elseTag) {
+      const top = stack[stack.length - 1]
+      if (!top || top.inElse) {
+        throw ErrorFactory.template('Unexpected {{else}} in template')
+      }
+      top.inElse = true
+    } else {
+      const [path, ...filters] = expression.split('|').map(part => part.trim())
+      current().push({ type: 'variable', path, filters, source: tag })
+    }
+  }
+
+  pushText(source.slice(last))
+
+  const open = stack.pop()
+  if (open) {
+    throw ErrorFactory.template(
+      `Missing {{/${open.node.kind}}} for {{#${open.node.kind} ${open.node.path}}}`,
+    )
+  }
+  return root
+}
+
+/**
+ * Resolves a dotted path against the scope chain, innermost scope first.
+ * Only own properties are found, so `{{constructor}}` does not reach the prototype.
+ *
+ * @param path - The variable path
+ * @param scopes - The scope chain
+ * @returns Whether the variable is defined, and its value
+ */
+function lookup(path: string, scopes: Scope[]): { found: boolean; value?: unknown } {
+  const [head, ...rest] = path.split('.')
+  let value: unknown
+  let found = false
+
+  for (let i = scopes.length - 1; i >= 0 && !found; i--) {
+    const scope = scopes[i]
+    if (head === 'this') {
+      ;[value, found] = [scope.value, true]
+    } else if (head.startsWith('@')) {
+      if (Object.hasOwn(scope.data, head.slice(1))) {
+        ;[value, found] = [scope.data[head.slice(1)], true]
+      }
+    } else if (
+      scope.value !== null &&
+      typeof scope.value === 'object' &&
+      Object.hasOwn(scope.value, head)
+    ) {
+      ;[value, found] = [(scope.value as Record<string, unknown>)[head], true]
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, key)) {
+      return { found: false }
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+
+  return { found, value }
+}
+
+/**
+ * Template truthiness: empty arrays are falsy so `{{#if items}}` skips empty lists.
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value)
+}
+
+/**
+ * Renders parsed nodes against the scope chain.
+ *
+ * @param nodes - The nodes to render
+ * @param scopes - The scope chain, innermost last
+ * @param filters - The available filters
+ * @returns The rendered text
+ */
+function renderNodes(
+  nodes: Node[],
+  scopes: Scope[],
+  filters: Record<string, TemplateFilter>,
+): string {
+  let output = ''
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value
+    } else if (node.type === 'variable') {
+      const { found, value } = lookup(node.path, scopes)
+      if (!found) {
+        output += node.source
+        continue
+      }
+      output += node.filters.reduce<unknown>((result, name) => {
+        const filter = filters[name]
+        if (!filter) {
+          throw ErrorFactory.template(`Unknown template filter '${name}'`)
+        }
+        return filter(result)
+      }, value ?? '')
+    } else if (node.kind === 'each') {
+      const { value } = lookup(node.path, scopes)
+      const items = Array.isArray(value) ? value : []
+      if (items.length === 0) {
+        output += renderNodes(node.otherwise, scopes, filters)
+        continue
+      }
+      items.forEach((item, index) => {
+        const data = { index, first: index === 0, last: index === items.length - 1 }
+        output += renderNodes(node.body, [...scopes, { value: item, data }], filters)
+      })
+    } else {
+      const condition = isTruthy(lookup(node.path, scopes).value)
+      const branch = condition === (node.kind === 'if') ? node.body : node.otherwise
+      output += renderNodes(branch, scopes, filters)
+    }
+  }
+
+  return output
+}
+
+/**
+ * Renders a template string with the given data.
+ *
+ * @param source - The template source
+ * @param data - The values available to the template
+ * @param filters - Additional filters, merged over the built-in ones
+ * @returns The rendered text
+ * @throws {TemplateError} When the template is malformed or uses an unknown filter
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('src/{{name | pascalCase}}.tsx', { name: 'my-button' });
+ * // 'src/MyButton.tsx'
+ * ```
+ */
+export function renderTemplate(
+  source: string,
+  data: Record<string, unknown>,
+  filters: Record<string, TemplateFilter> = {},
+): string {
+  if (!source.includes('{{')) return source
+  return renderNodes(parse(source), [{ value: data, data: {} }], { ...templateFilters, ...filters })
+}
@@ -0,0 +1,169 @@
+/**
+ * Minimal YAML parser for answer files and template manifests.
+ * Supports the subset those files need: nested mappings, block and flow sequences,
+ * literal block scalars (`|`), quoted and plain scalars, and comments.
+ * Anchors, tags, multi-document streams and flow mappings are not supported.
+ */
+
+interface Line {
+  indent: number
+  text: string
+  number: number
+}
+
+/**
+ * Removes a trailing `# comment` from a line, ignoring `#` inside quotes.
+ *
+ * @param line - The raw line
+ * @returns The line without its comment
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i)
+    }
+  }
+  return line
+}
+
+/**
+ * Parses a single scalar value.
+ *
+ * @param text - The trimmed scalar text
+ * @returns The parsed value
+ */
+function parseScalar(text: string): unknown {
+  if (text.startsWith('"')) return JSON.parse(text)
+  if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'")
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim()
+    return inner ? inner.split(',').map(item => parseScalar(item.trim())) : []
+  }
+  if (text === '{}') return {}
+  if (text === 'true') return true
+  if (text === 'false') return false
+  if (text === 'null' || text === '~' || text === '') return null
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text)
+  return text
+}
+
+/**
+ * Parses a YAML document into plain JavaScript values.
+ *
+ * @param source - The YAML source text
+ * @returns The parsed value
+ * @throws {Error} When the document uses unsupported syntax or bad indentation
+ */
+export function parseYaml(source: string): unknown {
+  const rawLines = source.split(/\r?\n/)
+  const lines: Line[] = []
+
+  rawLines.forEach((raw, index) => {
+    const text = stripComment(raw).trimEnd()
+    if (text.trim() === '' || text.trim() === '---') return
+    lines.push({
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+      number: index + 1,
+    })
+  })
+
+  if (lines.length === 0) return null
+
+  /**
+   * Collects the lines of a literal block scalar (`key: |`) starting at `lines[start]`.
+   */
+  const parseLiteral = (start: number, parentIndent: number): [string, number] => {
+    const first = lines[start]
+    if (!first || first.indent <= parentIndent) return ['', start]
+
+    let end = start
+    while (end < lines.length && lines[end].indent >= first.indent) end++
+
+    const content = rawLines
+      .slice(first.number - 1, lines[end - 1].number)
+      .map(raw => raw.substring(first.indent))
+      .join('\n')
+    return [`${content}\n`, end]
+  }
+
+  const parseBlock = (start: number, indent: number): [unknown, number] => {
+    if (lines[start].text.startsWith('- ') || lines[start].text === '-') {
+      return parseSequence(start, indent)
+    }
+    return parseMapping(start, indent)
+  }
+
+  const parseValue = (rest: string, next: number, indent: number): [unknown, number] => {
+    if (rest === '|') return parseLiteral(next, indent)
+    if (rest !== '') return [parseScalar(rest), next]
+
+    const child = lines[next]
+    if (child && child.indent > indent) return parseBlock(next, child.indent)
+    // A sequence may sit at the same indentation as its key
+    if (child && child.indent === indent && child.text.startsWith('-')) {
+      return parseSequence(next, indent)
+    }
+    return [null, next]
+  }
+
+  const parseSequence = (start: number, indent: number): [unknown[], number] => {
+    const result: unknown[] = []
+    let i = start
+
+    while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+      const item = lines[i].text.substring(1).trim()
+
+      if (/^[^'"[{][^:]*:(\s|$)/.test(item)) {
+        // "- key: value" starts a mapping nested in the sequence item
+        const nestedIndent = indent + (lines[i].text.length - item.length)
+        lines[i] = { ...lines[i], indent: nestedIndent, text: item }
+        const [value, next] = parseMapping(i, nestedIndent)
+        result.push(value)
+        i = next
+      } else {
+        const [value, next] = parseValue(item, i + 1, indent)
+        result.push(value)
+        i = next
+      }
+    }
+
+    return [result, i]
+  }
+
+  const parseMapping = (start: number, indent: number): [Record<string, unknown>, number] => {
+    const result: Record<string, unknown> = {}
+    let i = start
+
+    while (i < lines.length && lines[i].indent >= indent) {
+      const line = lines[i]
+      if (line.indent > indent) {
+        throw new Error(`Unexpected indentation on line ${line.number}`)
+      }
+
+      const match = line.text.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/)
+      if (!match) {
+        throw new Error(`Expected "key: value" on line ${line.number}`)
+      }
+
+      const key = String(parseScalar(match[1]))
+      const [value, next] = parseValue((match[2] ?? '').trim(), i + 1, indent)
+      result[key] = value
+      i = next
+    }
+
+    return [result, i]
+  }
+
+  const [value, end] = parseBlock(0, lines[0].indent)
+  if (end < lines.length) {
+    throw new Error(`Unexpected content on line ${lines[end].number}`)
+  }
+  return value
+}
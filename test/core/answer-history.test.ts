@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { homedir, tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { AnswerHistory, getConfigDir } from '../../src/core/answer-history.js'
+import type { PromptConfig } from '../../src/types/index.d.js'
+
+describe('AnswerHistory', () => {
+  let dir: string
+  let history: AnswerHistory
+
+  const prompts: PromptConfig[] = [
+    { name: 'author', type: 'input', message: 'Author' },
+    { name: 'license', type: 'select', message: 'License', choices: [] },
+    { name: 'projectName', type: 'input', message: 'Project name', persist: false },
+    { name: 'token', type: 'password', message: 'npm token' },
+  ]
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'answer-history-'))
+    history = new AnswerHistory('@acme/create', dir)
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('stores answers per CLI in the config directory', () => {
+    expect(history.filePath).toBe(join(dir, '@acme-create', 'answers.json'))
+  })
+
+  it('loads nothing when there is no history yet', async () => {
+    expect(await history.load()).toEqual({})
+  })
+
+  it('saves answers except secrets and prompts that opt out', async () => {
+    await history.save(
+      { author: 'Ada', license: 'MIT', projectName: 'my-app', token: 'secret' },
+      prompts,
+    )
+
+    expect(JSON.parse(await readFile(history.filePath, 'utf8'))).toEqual({
+      author: 'Ada',
+      license: 'MIT',
+    })
+  })
+
+  it('saves the project name only when its prompt opts in', async () => {
+    const projectName: PromptConfig = { name: 'projectName', type: 'input', message: 'Name' }
+
+    await history.save({ projectName: 'my-app' }, [projectName])
+    expect(await history.load()).toEqual({})
+
+    await history.save({ projectName: 'my-app' }, [{ ...projectName, persist: true }])
+    expect(await history.load()).toEqual({ projectName: 'my-app' })
+  })
+
+  it('keeps remembered answers of prompts that were not answered', async () => {
+    await history.save({ author: 'Ada', license: 'MIT' }, prompts)
+    await history.save({ author: 'Grace' }, prompts)
+
+    expect(await history.load()).toEqual({ author: 'Grace', license: 'MIT' })
+  })
+
+  it('ignores a corrupt history file', async () => {
+    await mkdir(dirname(history.filePath), { recursive: true })
+    await writeFile(history.filePath, '{ not json')
+    expect(await history.load()).toEqual({})
+
+    await writeFile(history.filePath, '["author"]')
+    expect(await history.load()).toEqual({})
+
+    await history.save({ author: 'Ada' }, prompts)
+    expect(await history.load()).toEqual({ author: 'Ada' })
+  })
+})
+
+describe('getConfigDir', () => {
+  it('prefers XDG_CONFIG_HOME', () => {
+    expect(getConfigDir({ XDG_CONFIG_HOME: '/xdg' }, 'linux')).toBe('/xdg')
+  })
+
+  it('uses APPDATA on Windows', () => {
+    expect(getConfigDir({ APPDATA: 'C:\\Users\\ada\\AppData' }, 'win32')).toBe(
+      'C:\\Users\\ada\\AppData',
+    )
+  })
+
+  it('falls back to ~/.config', () => {
+    expect(getConfigDir({}, 'darwin')).toBe(join(homedir(), '.config'))
+  })
+})
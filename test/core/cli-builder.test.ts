@@ -1,7 +1,73 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PassThrough, Writable } from 'node:stream'
+import { AnswerHistory } from '../../src/core/answer-history.js'
 import { CLIBuilder } from '../../src/core/cli-builder.js'
-import type { CLIConfig } from '../../src/types/index.js'
-import { CLIError, ReadlineError } from '~/index.js'
+import { writeJson } from '../../src/utils/fs.js'
+import type { CLIConfig, PluginContext, PluginLogger } from '../../src/types/index.js'
+import {
+  CLIError,
+  ConfigurationError,
+  definePlugin,
+  PluginError,
+  ReadlineError,
+  ValidationError,
+} from '~/index.js'
+
+const spinner = vi.hoisted(() => {
+  const spinner = { start: vi.fn(), stop: vi.fn(), succeed: vi.fn(), fail: vi.fn() }
+  spinner.start.mockReturnValue(spinner)
+  return spinner
+})
+vi.mock('ora', () => ({ default: () => spinner }))
+
+/**
+ * Streams that answer each question with the next line, the way a user would.
+ * Questions asked after the last line get an end of input.
+ */
+const scriptedInput = (lines: string[]) => {
+  const input = new PassThrough()
+  const questions: string[] = []
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      questions.push(String(chunk))
+      const line = lines.shift()
+      setImmediate(() => (line === undefined ? input.end() : input.write(`${line}\n`)))
+      callback()
+    },
+  })
+  return {
+    streams: {
+      input: input as unknown as NodeJS.ReadStream,
+      output: output as unknown as NodeJS.WriteStream,
+    },
+    questions,
+  }
+}
+
+let logSpy: ReturnType<typeof vi.spyOn> | undefined
+const captureLog = () => {
+  logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+}
+const logged = (): string =>
+  (logSpy?.mock.calls ?? [])
+    .flat()
+    .join('\n')
+    .replace(/\x1b\[[0-9;]*m/g, '')
+
+const tempDirs: string[] = []
+const tempDir = async (): Promise<string> => {
+  const dir = await mkdtemp(join(tmpdir(), 'cli-builder-'))
+  tempDirs.push(dir)
+  return dir
+}
+
+afterEach(async () => {
+  logSpy = undefined
+  await Promise.all(tempDirs.splice(0).map(dir => rm(dir, { recursive: true, force: true })))
+})
 
 describe('CLIBuilder', () => {
   let mockConfig: CLIConfig
@@ -64,4 +130,1007 @@ describe('CLIBuilder', () => {
       }
     }).not.toThrow()
   })
+
+  it('should list templates with the list-templates command', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const cli = new CLIBuilder(mockConfig)
+
+    cli.parse(['node', 'test', 'list-templates'])
+
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('test-template'))
+  })
+
+  it('should dispatch user-defined commands with named arguments', async () => {
+    const action = vi.fn()
+    const cli = new CLIBuilder({
+      ...mockConfig,
+      commands: [
+        {
+          name: 'add',
+          description: 'Add a component',
+          arguments: [{ name: 'component', required: true }],
+          options: [{ flags: '--dir <dir>', description: 'Target directory', default: 'src' }],
+          action,
+        },
+      ],
+    })
+
+    cli.parse(['node', 'test', 'add', 'button'])
+    await vi.waitFor(() => expect(action).toHaveBeenCalled())
+
+    expect(action).toHaveBeenCalledWith({ component: 'button' }, { dir: 'src' })
+  })
+
+  it('should pass templates and theme to a custom help formatter', () => {
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const helpFormatter = vi.fn().mockReturnValue('help\n')
+    const cli = new CLIBuilder({ ...mockConfig, helpFormatter })
+
+    cli.parse(['node', 'test', '--help'])
+    writeSpy.mockRestore()
+
+    expect(helpFormatter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templates: [{ name: 'test-template', description: 'Test template' }],
+      }),
+      expect.objectContaining({ primary: expect.any(String) }),
+    )
+  })
+
+  describe('answers file', () => {
+    const writeAnswers = async (name: string, content: string): Promise<string> => {
+      const file = join(await tempDir(), name)
+      await writeFile(file, content)
+      return file
+    }
+
+    const configWithPrompts = (): CLIConfig => ({
+      ...mockConfig,
+      prompts: [
+        { name: 'projectName', type: 'input', message: 'Project name' },
+        {
+          name: 'port',
+          type: 'input',
+          message: 'Port',
+          validate: { validate: value => /^\d+$/.test(String(value)) || 'Port must be numeric' },
+          transform: value => Number(value),
+        },
+        {
+          name: 'template',
+          type: 'select',
+          message: 'Template',
+          choices: [{ name: 'Test', value: 'test-template' }],
+        },
+        { name: 'author', type: 'input', message: 'Author', default: 'Anonymous' },
+      ],
+    })
+
+    const runWith = (projectName: string | undefined, options: Record<string, unknown>) => {
+      captureLog()
+      return new CLIBuilder(configWithPrompts()).run(projectName, {
+        history: false,
+        dryRun: true,
+        ...options,
+      })
+    }
+
+    it('pre-populates, validates and transforms answers from JSON', async () => {
+      const file = await writeAnswers(
+        'answers.json',
+        JSON.stringify({ projectName: 'app', port: '8080', template: 'test-template' }),
+      )
+
+      const result = await runWith(undefined, { answers: file, interactive: false })
+
+      expect(result.answers).toEqual({
+        projectName: 'app',
+        port: 8080,
+        template: 'test-template',
+        author: 'Anonymous',
+      })
+    })
+
+    it('reads YAML answers and lets command line values win', async () => {
+      const file = await writeAnswers('answers.yaml', 'projectName: from-file\nport: 3000\n')
+
+      const result = await runWith('from-argv', {
+        config: file,
+        template: 'test-template',
+        interactive: false,
+      })
+
+      expect(result.answers.projectName).toBe('from-argv')
+      expect(result.answers.port).toBe(3000)
+    })
+
+    it('rejects values that fail validation or are not a valid choice', async () => {
+      const badPort = await writeAnswers('a.json', JSON.stringify({ port: 'abc' }))
+      const badTemplate = await writeAnswers('b.json', JSON.stringify({ template: 'nope' }))
+
+      const port = await runWith(undefined, { answers: badPort })
+      const template = await runWith(undefined, { answers: badTemplate })
+
+      expect(port.error?.message).toBe("Invalid answer for 'port': Port must be numeric")
+      expect(template.error).toBeInstanceOf(ValidationError)
+    })
+
+    it('fails on missing answers in non-interactive mode', async () => {
+      const file = await writeAnswers('answers.json', JSON.stringify({ projectName: 'app' }))
+
+      const result = await runWith(undefined, { answers: file, interactive: false })
+
+      expect(result.error?.message).toContain("Missing answer for 'port'")
+    })
+
+    it('reports unreadable answers files as configuration errors', async () => {
+      const result = await runWith(undefined, { answers: '/does/not/exist.json' })
+
+      expect(result.error).toBeInstanceOf(ConfigurationError)
+    })
+  })
+
+  describe('prompt flags', () => {
+    const configWithPrompts = (): CLIConfig => ({
+      ...mockConfig,
+      prompts: [
+        { name: 'projectName', type: 'input', message: 'Project name' },
+        { name: 'installDeps', type: 'confirm', message: 'Install dependencies?', alias: 'i' },
+        {
+          name: 'framework',
+          type: 'select',
+          message: 'Framework',
+          choices: [
+            { name: 'React', value: 'react' },
+            { name: 'Vue', value: 'vue' },
+          ],
+        },
+        {
+          name: 'features',
+          type: 'multiselect',
+          message: 'Features',
+          choices: [
+            { name: 'TypeScript', value: 'ts' },
+            { name: 'ESLint', value: 'eslint' },
+          ],
+        },
+        { name: 'secret', type: 'input', message: 'Secret', flag: false },
+        { name: 'npmToken', type: 'password', message: 'npm token' },
+        { name: 'port', type: 'number', message: 'Port', min: 1, max: 65535, integer: true },
+      ],
+    })
+
+    const runWith = (config: CLIConfig, options: Record<string, unknown>, lines: string[] = []) => {
+      captureLog()
+      const io = scriptedInput(lines)
+      const cli = new CLIBuilder(config, io.streams)
+      return cli.run('app', { history: false, dryRun: true, template: 'test-template', ...options })
+    }
+
+    it('registers an option for every prompt that does not opt out', () => {
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+      const helpFormatter = vi.fn().mockReturnValue('')
+      const cli = new CLIBuilder({ ...configWithPrompts(), helpFormatter })
+
+      cli.parse(['node', 'test', '--help'])
+      writeSpy.mockRestore()
+
+      const { options } = helpFormatter.mock.calls[0][0]
+      const flags = options.map((option: { flags: string }) => option.flags)
+      expect(flags).toEqual(
+        expect.arrayContaining([
+          '--project-name <value>',
+          '-i, --install-deps',
+          '--no-install-deps',
+          '--framework <value>',
+          '--features <values>',
+          '--port <number>',
+        ]),
+      )
+      expect(flags.some((flag: string) => flag.includes('--secret'))).toBe(false)
+      expect(flags.some((flag: string) => flag.includes('--npm-token'))).toBe(false)
+    })
+
+    it('coerces option values to the prompt type', async () => {
+      const result = await runWith(configWithPrompts(), {
+        installDeps: false,
+        framework: 'Vue',
+        features: 'ts, eslint',
+        port: '8080',
+        yes: true,
+      })
+
+      expect(result.answers).toMatchObject({
+        installDeps: false,
+        framework: 'vue',
+        features: ['ts', 'eslint'],
+        port: 8080,
+      })
+    })
+
+    it('rejects number values that are not numbers or out of range', async () => {
+      const notANumber = await runWith(configWithPrompts(), { port: 'http', yes: true })
+      const outOfRange = await runWith(configWithPrompts(), { port: '70000', yes: true })
+
+      expect(notANumber.error?.message).toBe("Invalid answer for 'port': Please enter a number")
+      expect(outOfRange.error?.message).toBe("Invalid answer for 'port': Must be at most 65535")
+    })
+
+    it('asks for a number again until it fits the constraints', async () => {
+      const config: CLIConfig = {
+        ...mockConfig,
+        prompts: [{ name: 'ratio', type: 'number', message: 'Ratio', min: 0, max: 2, step: 0.5 }],
+      }
+      const lines = ['abc', '0.25', '1.5', '1']
+
+      const result = await runWith(config, {}, lines)
+
+      expect(lines).toEqual([])
+      expect(result.answers.ratio).toBe(1.5)
+    })
+
+    it('uses the default of a confirm prompt on empty input', async () => {
+      const config: CLIConfig = {
+        ...mockConfig,
+        prompts: [
+          { name: 'installDeps', type: 'confirm', message: 'Install?', default: true },
+          { name: 'git', type: 'confirm', message: 'Init git?' },
+        ],
+      }
+
+      const result = await runWith(config, {}, ['', '', '1'])
+
+      expect(result.answers).toMatchObject({ installDeps: true, git: false })
+    })
+
+    it('matches autocomplete answers without a TTY', async () => {
+      const config: CLIConfig = {
+        ...mockConfig,
+        prompts: [
+          {
+            name: 'framework',
+            type: 'autocomplete',
+            message: 'Framework',
+            choices: [
+              { name: 'React', value: 'react' },
+              { name: 'Preact', value: 'preact' },
+              { name: 'Vue', value: 'vue' },
+            ],
+          },
+        ],
+      }
+
+      const result = await runWith(config, {}, ['re', '2', '1'])
+
+      expect(result.answers.framework).toBe('preact')
+    })
+
+    it('asks for a password again until it passes validation', async () => {
+      const config: CLIConfig = {
+        ...mockConfig,
+        prompts: [
+          {
+            name: 'apiKey',
+            type: 'password',
+            message: 'API key',
+            validate: { validate: (v: unknown) => String(v).length > 5, message: 'Too short' },
+          },
+        ],
+      }
+      const lines = ['abc', 'long-enough', '1']
+
+      const result = await runWith(config, {}, lines)
+
+      expect(lines).toEqual([])
+      expect(result.answers.apiKey).toBe('********')
+      expect(logged()).toContain('Too short')
+      expect(logged()).not.toContain('abc')
+      expect(logged()).not.toContain('long-enough')
+    })
+
+    it('does not answer prompts named like a built-in option from that option', async () => {
+      const config: CLIConfig = {
+        ...mockConfig,
+        prompts: [
+          { name: 'force', type: 'confirm', message: 'Force push on deploy?', default: false },
+          { name: 'yes', type: 'input', message: 'Say yes', default: 'nope' },
+        ],
+      }
+
+      const result = await runWith(config, { force: true, yes: true })
+
+      expect(result.answers).toMatchObject({ force: false, yes: 'nope' })
+    })
+
+    it('rejects select values that are not a choice', async () => {
+      const result = await runWith(configWithPrompts(), { framework: 'angular', yes: true })
+
+      expect(result.error?.message).toBe(
+        "Invalid answer for 'framework': Expected one of: react, vue",
+      )
+    })
+  })
+
+  describe('prompt groups', () => {
+    it('shows group headings and goes back with <, re-evaluating when', async () => {
+      captureLog()
+      const lines = ['my-app', '<', 'plain', 'MIT', '1']
+      const io = scriptedInput(lines)
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          groups: [{ name: 'basics', title: 'The basics', description: 'Name your project' }],
+          prompts: [
+            { name: 'projectName', type: 'input', message: 'Project name', group: 'basics' },
+            {
+              name: 'framework',
+              type: 'input',
+              message: 'Framework',
+              group: 'basics',
+              when: answers => answers.projectName !== 'plain',
+            },
+            { name: 'license', type: 'input', message: 'License', group: 'extras' },
+          ],
+        },
+        io.streams,
+      )
+
+      const result = await cli.run(undefined, {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(result.answers).toEqual({
+        projectName: 'plain',
+        license: 'MIT',
+        template: 'test-template',
+      })
+      expect(io.questions.slice(0, 4)).toEqual([
+        'Project name: ',
+        'Framework: ',
+        'Project name: ',
+        'License: ',
+      ])
+      expect(logged()).toContain('Step 1/2 · The basics')
+      expect(logged()).toContain('Name your project')
+      expect(logged()).toContain('Step 2/2 · extras')
+    })
+
+    it('takes < as a password instead of going back', async () => {
+      captureLog()
+      const lines = ['my-app', '<', '1']
+      const io = scriptedInput(lines)
+      const onComplete = vi.fn()
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          plugins: [{ name: 'report', version: '1.0.0', hooks: { onComplete } }],
+          prompts: [
+            { name: 'projectName', type: 'input', message: 'Project name' },
+            { name: 'token', type: 'password', message: 'npm token' },
+          ],
+        },
+        io.streams,
+      )
+
+      const result = await cli.run(undefined, {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(lines).toEqual([])
+      expect(io.questions.slice(0, 2)).toEqual(['Project name: ', 'npm token: '])
+      expect(result.answers.token).toBe('********')
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ answers: expect.objectContaining({ token: '********' }) }),
+      )
+    })
+  })
+
+  describe('async prompt functions', () => {
+    it('awaits when, transform and computed choices', async () => {
+      captureLog()
+      const cli = new CLIBuilder({
+        ...mockConfig,
+        prompts: [
+          {
+            name: 'framework',
+            type: 'select',
+            message: 'Framework',
+            choices: async answers => [{ name: 'Vue', value: `vue-${answers.projectName}` }],
+            transform: async value => String(value).toUpperCase(),
+          },
+          {
+            name: 'router',
+            type: 'confirm',
+            message: 'Router?',
+            when: async answers => answers.framework === 'VUE-APP',
+            default: true,
+          },
+        ],
+      })
+      const options = { yes: true, history: false, dryRun: true, template: 'test-template' }
+
+      const vue = await cli.run('app', { ...options, framework: 'vue-app' })
+      const react = await cli.run('app', { ...options, framework: 'react' })
+
+      expect(vue.answers).toMatchObject({ framework: 'VUE-APP', router: true })
+      expect(react.error?.message).toBe(
+        "Invalid answer for 'framework': Expected one of: vue-app",
+      )
+    })
+
+    it('shows a spinner while an async validator runs', async () => {
+      captureLog()
+      const io = scriptedInput(['taken', 'free', '1'])
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          prompts: [
+            {
+              name: 'packageName',
+              type: 'input',
+              message: 'Package name',
+              validate: {
+                validate: async value => value !== 'taken' || 'Name is already taken',
+              },
+            },
+          ],
+        },
+        io.streams,
+      )
+      spinner.start.mockClear()
+
+      const result = await cli.run('app', {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(result.answers.packageName).toBe('free')
+      expect(spinner.start).toHaveBeenCalledTimes(2)
+      expect(spinner.stop).toHaveBeenCalled()
+      expect(logged()).toContain('Name is already taken')
+    })
+  })
+
+  describe('answer review', () => {
+    const reviewConfig = (): CLIConfig => ({
+      ...mockConfig,
+      prompts: [
+        { name: 'projectName', type: 'input', message: 'Project name' },
+        {
+          name: 'framework',
+          type: 'select',
+          message: 'Framework',
+          choices: [
+            { name: 'Vue', value: 'vue' },
+            { name: 'React', value: 'react' },
+          ],
+        },
+        { name: 'token', type: 'password', message: 'npm token' },
+      ],
+    })
+
+    const review = (lines: string[], options: Record<string, unknown> = {}) => {
+      captureLog()
+      const io = scriptedInput(lines)
+      const cli = new CLIBuilder(reviewConfig(), io.streams)
+      return cli.run('my-app', {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+        ...options,
+      })
+    }
+
+    it('shows the answers with secrets hidden and confirms', async () => {
+      const result = await review(['1', 'secret', '1'])
+
+      expect(result.status).toBe('dry-run')
+      expect(logged()).toContain('Review your answers')
+      expect(logged()).toMatch(/│ projectName\s+│ my-app\s+│/)
+      expect(logged()).toMatch(/│ framework\s+│ Vue\s+│/)
+      expect(logged()).toMatch(/│ token\s+│ \*{8}\s+│/)
+      expect(logged()).not.toContain('secret')
+    })
+
+    it('edits an answer before confirming', async () => {
+      const lines = [
+        '1', // Vue
+        'secret',
+        '2', // Edit an answer
+        '2', // framework
+        '2', // React
+        '1', // Yes, create the project
+      ]
+
+      const result = await review(lines)
+
+      expect(lines).toEqual([])
+      expect(result.answers.framework).toBe('react')
+      expect(logged().match(/Review your answers/g)).toHaveLength(2)
+    })
+
+    it('keeps a confirm answer when it is edited with empty input', async () => {
+      captureLog()
+      const io = scriptedInput([
+        'y', // Private?
+        '2', // Edit an answer
+        '1', // Private?
+        '', // keep yes
+        '1', // Yes, create the project
+      ])
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          prompts: [{ name: 'private', type: 'confirm', message: 'Private?', default: false }],
+        },
+        io.streams,
+      )
+
+      const result = await cli.run('my-app', {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(io.questions).toContain('Private? (Y/n): ')
+      expect(result.answers.private).toBe(true)
+    })
+
+    it('aborts, and is skipped with --yes', async () => {
+      const aborted = await review(['1', 'secret', '3'])
+      expect(aborted.status).toBe('cancelled')
+      expect(logged()).toContain('Aborted, no files were written')
+
+      const confirmed = await review([], { framework: 'vue', token: 'secret', yes: true })
+      expect(confirmed.status).toBe('dry-run')
+      expect(logged()).not.toContain('Review your answers')
+    })
+  })
+
+  describe('answer history', () => {
+    let configDir: string
+
+    const historyConfig = (): CLIConfig => ({
+      ...mockConfig,
+      prompts: [
+        { name: 'author', type: 'input', message: 'Author', default: 'anonymous' },
+        {
+          name: 'license',
+          type: 'select',
+          message: 'License',
+          default: 'MIT',
+          choices: [
+            { name: 'MIT', value: 'MIT' },
+            { name: 'ISC', value: 'ISC' },
+          ],
+        },
+      ],
+    })
+
+    const history = () => new AnswerHistory('test-cli', configDir)
+
+    const withHistory = async (remembered: Record<string, unknown>) => {
+      captureLog()
+      configDir = await tempDir()
+      vi.stubEnv('XDG_CONFIG_HOME', configDir)
+      await writeJson(history().filePath, remembered)
+      return new CLIBuilder(historyConfig())
+    }
+
+    const options = { yes: true, dryRun: true, template: 'test-template' }
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('offers remembered answers as defaults', async () => {
+      const cli = await withHistory({ author: 'Ada', license: 'ISC' })
+      const result = await cli.run('app', options)
+      expect(result.answers).toMatchObject({ author: 'Ada', license: 'ISC' })
+    })
+
+    it('ignores remembered answers that are no longer valid', async () => {
+      const cli = await withHistory({ license: 'GPL' })
+      const result = await cli.run('app', options)
+      expect(result.answers).toMatchObject({ author: 'anonymous', license: 'MIT' })
+    })
+
+    it('does not use or save the history with --no-history', async () => {
+      const cli = await withHistory({ author: 'Ada' })
+      const cwd = process.cwd()
+      process.chdir(await tempDir())
+
+      try {
+        const result = await cli.run('app', {
+          yes: true,
+          history: false,
+          template: 'test-template',
+        })
+        expect(result.status).toBe('success')
+        expect(result.answers.author).toBe('anonymous')
+        expect(await history().load()).toEqual({ author: 'Ada' })
+
+        await cli.run('other-app', { yes: true, author: 'Grace', template: 'test-template' })
+        expect(await history().load()).toEqual({ author: 'Grace', license: 'MIT' })
+      } finally {
+        process.chdir(cwd)
+      }
+    })
+  })
+
+  describe('run results and exit codes', () => {
+    const originalExitCode = process.exitCode
+
+    afterEach(() => {
+      process.exitCode = originalExitCode
+    })
+
+    it('returns an error result instead of exiting', async () => {
+      captureLog()
+      const exitSpy = vi.spyOn(process, 'exit')
+      const cli = new CLIBuilder(mockConfig)
+
+      const result = await cli.run('app', { yes: true, history: false, template: 'missing' })
+
+      expect(result.status).toBe('error')
+      expect(result.answers).toMatchObject({ projectName: 'app', template: 'missing' })
+      expect(result.error?.message).toBe("Template 'missing' not found")
+      expect(logged()).toContain("Template 'missing' not found")
+      expect(exitSpy).not.toHaveBeenCalled()
+    })
+
+    it('returns the planned project path for a dry run', async () => {
+      captureLog()
+      const cli = new CLIBuilder(mockConfig)
+
+      const result = await cli.run('app', {
+        yes: true,
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(result).toMatchObject({ status: 'dry-run', projectPath: join(process.cwd(), 'app') })
+      expect(logged()).toContain('test.txt')
+    })
+
+    it('sets the exit code from the error type in main()', async () => {
+      captureLog()
+      const cli = new CLIBuilder(mockConfig)
+
+      const exitCode = await cli.main([
+        'node',
+        'test',
+        'app',
+        '--yes',
+        '--no-history',
+        '-t',
+        'test-template',
+        '--package-manager',
+        'npx',
+      ])
+
+      expect(exitCode).toBe(2)
+      expect(process.exitCode).toBe(2)
+    })
+
+    it('exits with 0 after showing help in main()', async () => {
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+      const cli = new CLIBuilder(mockConfig)
+
+      const exitCode = await cli.main(['node', 'test', '--help'])
+      writeSpy.mockRestore()
+
+      expect(exitCode).toBe(0)
+    })
+  })
+
+  describe('file conflicts', () => {
+    const runInto = async (conflictStrategy: CLIConfig['conflictStrategy']) => {
+      captureLog()
+      const cwd = await tempDir()
+      await mkdir(join(cwd, 'app'))
+      await writeFile(join(cwd, 'app', 'test.txt'), 'Hello\n')
+      const io = scriptedInput([])
+      const cli = new CLIBuilder({ ...mockConfig, conflictStrategy }, io.streams)
+      const originalCwd = process.cwd()
+      process.chdir(cwd)
+
+      try {
+        const result = await cli.run('app', {
+          yes: true,
+          history: false,
+          template: 'test-template',
+        })
+        const content = await readFile(join(cwd, 'app', 'test.txt'), 'utf8')
+        return { result, content, questions: io.questions }
+      } finally {
+        process.chdir(originalCwd)
+      }
+    }
+
+    it('keeps existing files without asking with prompt-per-file and --yes', async () => {
+      const { result, content, questions } = await runInto('prompt-per-file')
+
+      expect(result.status).toBe('success')
+      expect(content).toBe('Hello\n')
+      expect(questions).toEqual([])
+    })
+
+    it('applies merges without asking with --yes', async () => {
+      const { result, content, questions } = await runInto('merge')
+
+      expect(result.status).toBe('success')
+      expect(content).toBe('Hello\nHello World\n')
+      expect(questions).toEqual([])
+    })
+  })
+
+  describe('plugins', () => {
+    const pluginTheme = {
+      primary: '#111111',
+      secondary: '#222222',
+      success: '#333333',
+      error: '#444444',
+      warning: '#555555',
+      info: '#666666',
+      muted: '#777777',
+    } as const
+
+    const onError = vi.fn()
+    const extras = vi.fn(() => ({
+      name: 'extras',
+      version: '1.0.0',
+      hooks: { onError },
+      templates: [{ name: 'plugin-template', description: 'From a plugin', files: [] }],
+      themes: { night: pluginTheme },
+    }))
+
+    const pluginCLI = (overrides: Partial<CLIConfig> = {}) => {
+      captureLog()
+      onError.mockClear()
+      extras.mockClear()
+      return new CLIBuilder({ ...mockConfig, plugins: [extras], ...overrides })
+    }
+
+    const dryRun = { yes: true, history: false, dryRun: true }
+
+    it('installs plugins once and merges their templates and themes', async () => {
+      const helpFormatter = vi.fn().mockReturnValue('')
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+      const cli = pluginCLI({ theme: 'night', helpFormatter })
+
+      await cli.main(['node', 'test', '--help'])
+      await cli.main(['node', 'test', '--help'])
+      writeSpy.mockRestore()
+
+      expect(extras).toHaveBeenCalledTimes(1)
+      const [info, theme] = helpFormatter.mock.calls[0]
+      expect(info.templates.map((t: { name: string }) => t.name)).toEqual([
+        'test-template',
+        'plugin-template',
+      ])
+      expect(theme).toEqual(pluginTheme)
+    })
+
+    it('generates from a plugin template', async () => {
+      const cli = pluginCLI()
+
+      const result = await cli.run('app', { ...dryRun, template: 'plugin-template' })
+
+      expect(result.status).toBe('dry-run')
+    })
+
+    it('validates answers with plugin validators referenced by name', async () => {
+      captureLog()
+      const lines = ['Bad Name', 'good-name', '1']
+      const io = scriptedInput(lines)
+      const npmName = {
+        validate: (value: unknown) => /^[a-z-]+$/.test(String(value)) || 'Not a valid npm name',
+      }
+      const prompts: CLIConfig['prompts'] = [
+        { name: 'packageName', type: 'input', message: 'Package name', validate: 'npmName' },
+      ]
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          prompts,
+          plugins: [{ name: 'npm', version: '1.0.0', validators: { npmName } }],
+        },
+        io.streams,
+      )
+
+      const result = await cli.run('app', {
+        history: false,
+        dryRun: true,
+        template: 'test-template',
+      })
+
+      expect(lines).toEqual([])
+      expect(result.answers.packageName).toBe('good-name')
+      expect(logged()).toContain('Not a valid npm name')
+    })
+
+    it('fails when a prompt names a validator that does not exist', async () => {
+      const cli = pluginCLI({
+        prompts: [{ name: 'packageName', type: 'input', message: 'Name', validate: 'npmName' }],
+      })
+
+      const result = await cli.run('app', { ...dryRun, packageName: 'app' })
+
+      expect(result.error).toBeInstanceOf(ConfigurationError)
+      expect(result.error?.message).toBe("Unknown validator 'npmName' for prompt 'packageName'")
+    })
+
+    it('calls onError hooks when the run fails', async () => {
+      const cli = pluginCLI()
+
+      const result = await cli.run('app', { yes: true, history: false, template: 'missing' })
+
+      expect(result.status).toBe('error')
+      expect(onError).toHaveBeenCalledWith(result.error, 'run')
+    })
+
+    it('resolves with an error when the plugins cannot be ordered', async () => {
+      const onComplete = vi.fn()
+      const cycle = pluginCLI({
+        plugins: [
+          { name: 'a', version: '1.0.0', after: ['b'], hooks: { onError, onComplete } },
+          { name: 'b', version: '1.0.0', after: ['a'] },
+        ],
+      })
+      const missing = pluginCLI({
+        plugins: [{ name: 'lint', version: '1.0.0', dependsOn: { typescript: '^1.0.0' } }],
+      })
+
+      const cycleResult = await cycle.run('app', { ...dryRun, template: 'test-template' })
+      const missingResult = await missing.run('app', { ...dryRun, template: 'test-template' })
+
+      expect(cycleResult.status).toBe('error')
+      expect(cycleResult.error).toBeInstanceOf(PluginError)
+      expect(cycleResult.error?.message).toContain('form a cycle')
+      expect(onError).not.toHaveBeenCalled()
+      expect(onComplete).not.toHaveBeenCalled()
+      expect(missingResult.status).toBe('error')
+      expect(missingResult.error?.message).toBe(
+        "Plugin 'lint' depends on 'typescript', which is not installed",
+      )
+    })
+
+    it('fails on an unknown theme name', async () => {
+      const cli = pluginCLI({ theme: 'sepia' })
+
+      const result = await cli.run('app', { yes: true, history: false })
+
+      expect(result.error).toBeInstanceOf(ConfigurationError)
+      expect(result.error?.message).toBe("Unknown theme 'sepia'")
+    })
+
+    it('loads configured plugins from the root and --plugin from the cwd', async () => {
+      const [root, cwd] = [await tempDir(), await tempDir()]
+      const plugin = (name: string) =>
+        `export default { name: '${name}', version: '1.0.0', templates: [{ name: '${name}-template', description: '', files: [] }] }\n`
+      await writeFile(join(root, 'config-plugin.mjs'), plugin('configured'))
+      await writeFile(join(cwd, 'flag-plugin.mjs'), plugin('flagged'))
+      const cli = pluginCLI({ root, plugins: ['./config-plugin.mjs'] })
+      const originalCwd = process.cwd()
+      process.chdir(cwd)
+
+      try {
+        const result = await cli.run('app', {
+          ...dryRun,
+          template: 'flagged-template',
+          plugin: ['./flag-plugin.mjs'],
+        })
+
+        expect(result.status).toBe('dry-run')
+        expect(logged()).toContain("Plugin 'configured' v1.0.0 installed successfully")
+        expect(logged()).toContain("Plugin 'flagged' v1.0.0 installed successfully")
+      } finally {
+        process.chdir(originalCwd)
+      }
+    })
+
+    it('fails the run when a --plugin cannot be found', async () => {
+      const cli = pluginCLI()
+
+      const result = await cli.run('app', {
+        ...dryRun,
+        template: 'test-template',
+        plugin: ['./no-such-plugin.js'],
+      })
+
+      expect(result.status).toBe('error')
+      expect(result.error).toBeInstanceOf(PluginError)
+      expect(result.error?.message).toContain("Cannot find plugin './no-such-plugin.js'")
+    })
+
+    it('creates plugins from factories with options and a shared context', async () => {
+      let image: unknown
+      const producer = definePlugin((options: { image?: string }, { store }) => {
+        store.set('image', options.image)
+        return { name: 'producer', version: '1.0.0' }
+      })
+      const consumer = definePlugin((_options, { store, logger }) => {
+        logger.info('loading')
+        image = store.get('image')
+        return { name: 'consumer', version: '1.0.0' }
+      })
+      const cli = pluginCLI({ plugins: [[producer, { image: 'node:22' }], consumer] })
+
+      await cli.run('app', { ...dryRun, template: 'test-template' })
+
+      expect(image).toBe('node:22')
+      expect(logged()).toContain('[anonymous plugin factory] loading')
+    })
+
+    it('prefixes log messages with the plugin name once it is loaded', async () => {
+      let log: PluginLogger | undefined
+      const cli = pluginCLI({
+        plugins: [
+          function audit(_options: Record<string, unknown>, context: PluginContext) {
+            log = context.logger
+            return { name: 'audit', version: '1.0.0' }
+          },
+        ],
+      })
+
+      await cli.run('app', { ...dryRun, template: 'test-template' })
+      log?.warn('outdated lockfile')
+
+      expect(logged()).toContain('[audit] outdated lockfile')
+    })
+
+    it('warns about plugins that cannot be found', async () => {
+      const cli = pluginCLI({ root: tmpdir(), plugins: ['./no-such-plugin.js'] })
+
+      const result = await cli.run('app', { ...dryRun, template: 'test-template' })
+
+      expect(result.status).toBe('dry-run')
+      expect(logged()).toContain(
+        "Failed to install plugin './no-such-plugin.js': Cannot find plugin './no-such-plugin.js'",
+      )
+    })
+  })
+
+  describe('prompt and answer hooks', () => {
+    it('lets plugins adjust prompts, answers and see the result', async () => {
+      captureLog()
+      const onComplete = vi.fn()
+      const io = scriptedInput([
+        'My-App', // project name
+        '1', // confirm the review
+      ])
+      const cli = new CLIBuilder(
+        {
+          ...mockConfig,
+          prompts: [{ name: 'projectName', type: 'input', message: 'Project name' }],
+          plugins: [
+            {
+              name: 'naming',
+              version: '1.0.0',
+              hooks: {
+                beforePrompt: prompt => ({ ...prompt, default: 'suggested-name' }),
+                afterPrompt: (_prompt, value) => String(value).toLowerCase(),
+                afterAnswers: answers => ({ ...answers, template: 'test-template' }),
+                onComplete,
+              },
+            },
+          ],
+        },
+        io.streams,
+      )
+
+      const result = await cli.run(undefined, { history: false, dryRun: true })
+
+      expect(io.questions[0]).toBe('Project name (suggested-name): ')
+      expect(result.status).toBe('dry-run')
+      expect(result.answers).toEqual({ projectName: 'my-app', template: 'test-template' })
+      expect(onComplete).toHaveBeenCalledWith(result)
+    })
+  })
 })
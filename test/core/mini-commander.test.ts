@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Command } from '../../src/core/mini-commander.js'
+import { CommanderError } from '../../src/errors/index.js'
+
+describe('Command', () => {
+  it('calls the root action with the argument and options', () => {
+    const action = vi.fn()
+    const program = new Command()
+      .argument('[project-name]')
+      .option('-t, --template <template>', 'Template to use')
+      .action(action)
+
+    program.parse(['my-app', '-t', 'react'])
+
+    expect(action).toHaveBeenCalledWith('my-app', { template: 'react' }, program)
+  })
+
+  it('camelCases long option names', () => {
+    const action = vi.fn()
+    const program = new Command().option('--dry-run').action(action)
+
+    program.parse(['--dry-run'])
+
+    expect(action.mock.calls[0][0]).toEqual({ dryRun: true })
+  })
+
+  it('dispatches to a registered subcommand', () => {
+    const root = vi.fn()
+    const add = vi.fn()
+    const program = new Command().argument('[project-name]').action(root)
+    program
+      .command('add <component>', 'Add a component')
+      .option('-d, --dir <dir>')
+      .action(add)
+
+    program.parse(['node', 'cli.js', 'add', 'button', '--dir', 'src'])
+
+    expect(root).not.toHaveBeenCalled()
+    expect(add).toHaveBeenCalledWith('button', { dir: 'src' }, expect.any(Command))
+  })
+
+  it('resolves subcommands by alias and nesting', () => {
+    const action = vi.fn()
+    const program = new Command()
+    program.command('db').command('migrate [steps]').alias('m').action(action)
+
+    program.parse(['db', 'm', '2'])
+
+    expect(action).toHaveBeenCalledWith('2', {}, expect.any(Command))
+  })
+
+  it('finds subcommands after leading options and passes the options on', () => {
+    const root = vi.fn()
+    const create = vi.fn()
+    const program = new Command()
+      .argument('[project-name]')
+      .option('-y, --yes')
+      .option('-t, --template <template>')
+      .action(root)
+    program
+      .command('create')
+      .argument('[project-name]')
+      .option('-y, --yes')
+      .option('-t, --template <template>')
+      .option('--no-history')
+      .action(create)
+
+    program.parse(['-y', '--no-history', 'create', 'app'])
+    program.parse(['-t', 'create', 'create', 'app'])
+
+    expect(root).not.toHaveBeenCalled()
+    expect(create).toHaveBeenNthCalledWith(
+      1,
+      'app',
+      { yes: true, history: false },
+      expect.any(Command),
+    )
+    expect(create).toHaveBeenNthCalledWith(
+      2,
+      'app',
+      { template: 'create', history: true },
+      expect.any(Command),
+    )
+  })
+
+  it('collects variadic arguments', () => {
+    const action = vi.fn()
+    const program = new Command().argument('<files...>').action(action)
+
+    program.parse(['a.ts', 'b.ts'])
+
+    expect(action).toHaveBeenCalledWith(['a.ts', 'b.ts'], {}, program)
+  })
+
+  it('applies option defaults', () => {
+    const action = vi.fn()
+    const program = new Command().option('--port <port>', 'Port', '3000').action(action)
+
+    program.parse([])
+
+    expect(action).toHaveBeenCalledWith({ port: '3000' }, program)
+  })
+
+  it('collects repeatable options into an array', () => {
+    const action = vi.fn()
+    const program = new Command().argument('[name]').option('-p, --plugin <spec...>').action(action)
+
+    program.parse(['--plugin', 'a', 'app', '-p', 'b', '--plugin=c'])
+
+    expect(action).toHaveBeenCalledWith('app', { plugin: ['a', 'b', 'c'] }, program)
+  })
+
+  it('throws when a required argument is missing and exitOverride is enabled', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const program = new Command().exitOverride()
+    program.command('add <component>').action(vi.fn())
+
+    expect(() => program.parse(['add'])).toThrow(
+      expect.objectContaining({ code: 'commander.missingArgument', exitCode: 1 }),
+    )
+    expect(errorSpy).toHaveBeenCalledWith("error: missing required argument 'component'")
+  })
+
+  it('passes -h after -- on as an operand', () => {
+    const action = vi.fn()
+    const program = new Command().exitOverride()
+    program.command('create [names...]').action(action)
+
+    program.parse(['create', '--', '-h'])
+
+    expect(action).toHaveBeenCalledWith(['-h'], {}, expect.any(Command))
+  })
+
+  it('throws when an option is missing its value', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const action = vi.fn()
+    const program = new Command()
+      .exitOverride()
+      .argument('[project-name]')
+      .option('-t, --template <name>', 'Template to use')
+      .action(action)
+
+    expect(() => program.parse(['app', '--template'])).toThrow(
+      expect.objectContaining({
+        code: 'commander.optionMissingArgument',
+        exitCode: 1,
+        message: "error: option '-t, --template <name>' argument missing",
+      }),
+    )
+    expect(() => program.parse(['app', '-t'])).toThrow(CommanderError)
+    expect(errorSpy).toHaveBeenCalledWith("error: option '-t, --template <name>' argument missing")
+    expect(action).not.toHaveBeenCalled()
+  })
+
+  it('routes `help <command>` to the nested command', () => {
+    const program = new Command().exitOverride()
+    program.command('add <component>').action(vi.fn())
+
+    expect(() => program.parse(['help', 'add'])).toThrow(
+      expect.objectContaining({ code: 'commander.helpDisplayed', exitCode: 0 }),
+    )
+  })
+
+  it('prints help with arguments, options and commands', () => {
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const program = new Command()
+      .name('my-cli')
+      .description('My CLI')
+      .version('1.0.0')
+      .argument('[project-name]', 'Project name')
+      .option('-t, --template <template>', 'Template to use')
+      .exitOverride()
+    program.command('list-templates', 'List the available templates').alias('ls')
+
+    expect(() => program.parse(['--help'])).toThrow(
+      expect.objectContaining({ code: 'commander.helpDisplayed' }),
+    )
+
+    const output = writeSpy.mock.calls.map(call => String(call[0])).join('')
+    writeSpy.mockRestore()
+    expect(output).toContain('Usage: my-cli [options] [command] [project-name]')
+    expect(output).toContain('project-name')
+    expect(output).toContain('-t, --template <template>  Template to use')
+    expect(output).toContain('list-templates|ls')
+  })
+
+  it('uses the nearest help formatter for subcommands', () => {
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const program = new Command()
+      .name('my-cli')
+      .helpFormatter(info => `custom help for ${info.name}\n`)
+      .exitOverride()
+    program.command('add <component>').action(vi.fn())
+
+    expect(() => program.parse(['add', '--help'])).toThrow()
+
+    expect(writeSpy).toHaveBeenCalledWith('custom help for my-cli add\n')
+    writeSpy.mockRestore()
+  })
+
+  it('supports negatable --no-* options', () => {
+    const action = vi.fn()
+    const program = new Command().option('--no-interactive').action(action)
+
+    program.parse([])
+    program.parse(['--no-interactive'])
+
+    expect(action.mock.calls[0][0]).toEqual({ interactive: true })
+    expect(action.mock.calls[1][0]).toEqual({ interactive: false })
+  })
+})
+
@@ -0,0 +1,424 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ProjectGenerator } from '../../src/core/project-generator.js'
+import { DependencyError, FileSystemError, getExitCode } from '../../src/errors/index.js'
+import { PluginManager } from '../../src/plugins/plugin-manager.js'
+import type { GeneratorConfig, TemplateConfig } from '../../src/types/index.js'
+
+const exec = vi.hoisted(() => vi.fn())
+vi.mock('node:child_process', () => ({ exec }))
+
+vi.mock('ora', () => {
+  const spinner = { succeed: vi.fn(), fail: vi.fn(), stop: vi.fn(), start: () => spinner }
+  return { default: () => spinner }
+})
+
+describe('ProjectGenerator', () => {
+  let outputPath: string
+  let template: TemplateConfig
+  let config: GeneratorConfig
+
+  beforeEach(async () => {
+    outputPath = await mkdtemp(join(tmpdir(), 'project-generator-'))
+    template = {
+      name: 'test-template',
+      description: 'Test template',
+      files: [
+        { path: 'README.md', content: answers => `# ${answers.projectName}` },
+        { path: 'src/index.ts', content: 'export {}\n' },
+        { path: 'Dockerfile', content: 'FROM node', condition: answers => answers.docker === true },
+      ],
+      dependencies: { dependencies: { picocolors: '1.1.1' } },
+      scripts: { dev: 'node src/index.js' },
+      postInstall: async () => {},
+    }
+    config = {
+      projectName: 'my-app',
+      template: 'test-template',
+      answers: { projectName: 'my-app', docker: false, installDeps: false },
+      outputPath,
+    }
+  })
+
+  afterEach(async () => {
+    await rm(outputPath, { recursive: true, force: true })
+  })
+
+  describe('plan', () => {
+    it('lists the files, package.json and steps without writing anything', async () => {
+      const plan = await new ProjectGenerator().plan(template, config)
+
+      expect(plan.projectPath).toBe(join(outputPath, 'my-app'))
+      expect(plan.files).toEqual([
+        { path: 'README.md', size: 8 },
+        { path: 'src/index.ts', size: 10 },
+        { path: 'package.json', size: expect.any(Number) },
+      ])
+      expect(plan.packageJson).toMatchObject({
+        name: 'my-app',
+        scripts: { dev: 'node src/index.js' },
+        dependencies: { picocolors: '1.1.1' },
+      })
+      expect(plan.install).toBe(false)
+      expect(plan.postInstall).toBe(true)
+      expect(await readdir(outputPath)).toEqual([])
+    })
+
+    it('applies the beforeWriteFile hooks', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const pluginManager = new PluginManager()
+      await pluginManager.install({
+        name: 'files',
+        version: '1.0.0',
+        hooks: {
+          beforeWriteFile: (file, content) => {
+            if (file.path === 'src/index.ts') return false
+            if (file.path === 'README.md') return `${content}\n\nGenerated by a plugin\n`
+          },
+        },
+      })
+
+      const plan = await new ProjectGenerator({ pluginManager }).plan(template, config)
+
+      expect(plan.files.map(file => file.path)).toEqual(['README.md', 'package.json'])
+      expect(plan.files[0].size).toBe(32)
+    })
+
+    it('applies the conflict strategy to existing files', async () => {
+      const projectPath = join(outputPath, 'my-app')
+      await mkdir(projectPath)
+      await writeFile(join(projectPath, 'README.md'), 'local edits')
+
+      await expect(new ProjectGenerator().plan(template, config)).rejects.toThrow(
+        'already exists and is not empty',
+      )
+      const overwrite = await new ProjectGenerator().plan(template, {
+        ...config,
+        conflictStrategy: 'overwrite',
+      })
+      const skip = await new ProjectGenerator().plan(template, {
+        ...config,
+        conflictStrategy: 'skip',
+      })
+
+      expect(overwrite.files[0]).toEqual({ path: 'README.md', size: 8, conflict: 'overwrite' })
+      expect(skip.files.map(file => file.path)).toEqual(['src/index.ts', 'package.json'])
+      expect(await readdir(projectPath)).toEqual(['README.md'])
+    })
+  })
+
+  describe('generate', () => {
+    it('writes the template files and package.json', async () => {
+      await new ProjectGenerator().generate(template, config)
+
+      const projectPath = join(outputPath, 'my-app')
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('# my-app')
+      expect(await readFile(join(projectPath, 'src/index.ts'), 'utf8')).toBe('export {}\n')
+      expect(JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf8')).name).toBe(
+        'my-app',
+      )
+      expect(await readdir(projectPath)).not.toContain('Dockerfile')
+    })
+
+    it('renders template syntax in paths and string contents unless raw', async () => {
+      template.files = [
+        {
+          path: 'src/{{projectName | pascalCase}}.ts',
+          content: 'export const name = "{{projectName}}"\n',
+        },
+        { path: 'raw.txt', content: '{{projectName}}', raw: true },
+      ]
+      await new ProjectGenerator().generate(template, config)
+
+      const projectPath = join(outputPath, 'my-app')
+      expect(await readFile(join(projectPath, 'src/MyApp.ts'), 'utf8')).toBe(
+        'export const name = "my-app"\n',
+      )
+      expect(await readFile(join(projectPath, 'raw.txt'), 'utf8')).toBe('{{projectName}}')
+    })
+
+    it('renders text files from disk and copies binary ones byte-for-byte', async () => {
+      const sourceDir = await mkdtemp(join(tmpdir(), 'template-source-'))
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+      await writeFile(join(sourceDir, 'index.ts'), 'console.log("{{projectName}}")\n')
+      await writeFile(join(sourceDir, 'logo.png'), image)
+      template.files = [
+        { path: 'src/index.ts', source: join(sourceDir, 'index.ts') },
+        { path: 'logo.png', source: join(sourceDir, 'logo.png'), raw: true },
+      ]
+
+      await new ProjectGenerator().generate(template, config)
+      await rm(sourceDir, { recursive: true, force: true })
+
+      const projectPath = join(outputPath, 'my-app')
+      expect(await readFile(join(projectPath, 'src/index.ts'), 'utf8')).toBe(
+        'console.log("my-app")\n',
+      )
+      expect(await readFile(join(projectPath, 'logo.png'))).toEqual(image)
+    })
+  })
+
+  describe('plugin hooks', () => {
+    it('runs the generate and install hooks in order', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const calls: string[] = []
+      const pluginManager = new PluginManager()
+      await pluginManager.install({
+        name: 'recorder',
+        version: '1.0.0',
+        hooks: {
+          beforeGenerate: () => {
+            calls.push('beforeGenerate')
+          },
+          afterGenerate: (_config, projectPath) => {
+            calls.push(`afterGenerate ${projectPath}`)
+          },
+          beforeInstall: () => {
+            calls.push('beforeInstall')
+          },
+          afterInstall: () => {
+            calls.push('afterInstall')
+          },
+        },
+      })
+      const generator = new ProjectGenerator({ pluginManager })
+      vi.spyOn(generator as any, 'installDependencies').mockImplementation(async () => {
+        calls.push('install')
+      })
+
+      await generator.generate(template, {
+        ...config,
+        answers: { ...config.answers, installDeps: true },
+      })
+
+      expect(calls).toEqual([
+        'beforeGenerate',
+        `afterGenerate ${join(outputPath, 'my-app')}`,
+        'beforeInstall',
+        'install',
+        'afterInstall',
+      ])
+    })
+  })
+
+  describe('beforeWriteFile hooks', () => {
+    it('lets plugins rewrite or skip files', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const pluginManager = new PluginManager()
+      await pluginManager.install({
+        name: 'files',
+        version: '1.0.0',
+        hooks: {
+          beforeWriteFile: (file, content) => {
+            if (file.path === 'src/index.ts') return false
+            if (file.path === 'README.md') return `${content}\n\nGenerated by a plugin\n`
+          },
+        },
+      })
+
+      await new ProjectGenerator({ pluginManager }).generate(template, config)
+
+      const projectPath = join(outputPath, 'my-app')
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe(
+        '# my-app\n\nGenerated by a plugin\n',
+      )
+      expect(await readdir(projectPath)).toEqual(['README.md', 'package.json'])
+    })
+
+    it('passes no content for raw files streamed from disk', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const source = join(outputPath, 'logo.png')
+      await writeFile(source, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]))
+      const beforeWriteFile = vi.fn()
+      const pluginManager = new PluginManager()
+      await pluginManager.install({ name: 'files', version: '1.0.0', hooks: { beforeWriteFile } })
+
+      await new ProjectGenerator({ pluginManager }).generate(
+        { ...template, files: [{ path: 'logo.png', source, raw: true }] },
+        config,
+      )
+
+      expect(beforeWriteFile).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'logo.png' }),
+        undefined,
+      )
+      expect(await readFile(join(outputPath, 'my-app', 'logo.png'))).toEqual(
+        await readFile(source),
+      )
+    })
+  })
+
+  describe('writeFile', () => {
+    it('adds files to the project being generated', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const pluginManager = new PluginManager()
+      const generator = new ProjectGenerator({ pluginManager })
+      await pluginManager.install({
+        name: 'docker',
+        version: '1.0.0',
+        hooks: {
+          afterGenerate: async () => {
+            await generator.writeFile('docker/Dockerfile', 'FROM node:22\n')
+          },
+          beforeWriteFile: (file, content) =>
+            file.path === 'docker/Dockerfile' ? `${content}WORKDIR /app\n` : content,
+        },
+      })
+
+      await generator.generate(template, config)
+
+      expect(await readFile(join(outputPath, 'my-app', 'docker', 'Dockerfile'), 'utf8')).toBe(
+        'FROM node:22\nWORKDIR /app\n',
+      )
+    })
+
+    it('fails outside of a generation', async () => {
+      await expect(new ProjectGenerator().writeFile('Dockerfile', '')).rejects.toThrow(
+        FileSystemError,
+      )
+    })
+  })
+
+  describe('conflicts', () => {
+    let projectPath: string
+
+    beforeEach(async () => {
+      projectPath = join(outputPath, 'my-app')
+      await mkdir(projectPath)
+      await writeFile(join(projectPath, 'README.md'), 'local edits')
+    })
+
+    it('refuses to generate into a non-empty directory by default', async () => {
+      await expect(new ProjectGenerator().generate(template, config)).rejects.toThrow(
+        'already exists and is not empty',
+      )
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits')
+    })
+
+    it('overwrites existing files with the overwrite strategy', async () => {
+      await new ProjectGenerator().generate(template, { ...config, conflictStrategy: 'overwrite' })
+
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('# my-app')
+    })
+
+    it('keeps existing files with the skip strategy', async () => {
+      await new ProjectGenerator().generate(template, { ...config, conflictStrategy: 'skip' })
+
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits')
+      expect(await readFile(join(projectPath, 'src/index.ts'), 'utf8')).toBe('export {}\n')
+    })
+
+    it('asks the resolver for each conflicting file', async () => {
+      const resolveConflict = vi.fn().mockResolvedValue('skip')
+      const generator = new ProjectGenerator({ resolveConflict })
+
+      await generator.generate(template, { ...config, conflictStrategy: 'prompt-per-file' })
+
+      expect(resolveConflict).toHaveBeenCalledTimes(1)
+      expect(resolveConflict).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'README.md', existing: 'local edits', incoming: '# my-app' }),
+      )
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits')
+    })
+
+    it('keeps conflicting files without asking when not interactive', async () => {
+      const resolveConflict = vi.fn().mockResolvedValue('overwrite')
+      const generator = new ProjectGenerator({ resolveConflict })
+
+      await generator.generate(template, {
+        ...config,
+        conflictStrategy: 'prompt-per-file',
+        interactive: false,
+      })
+
+      expect(resolveConflict).not.toHaveBeenCalled()
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits')
+    })
+
+    it('applies merges without asking when not interactive', async () => {
+      const resolveConflict = vi.fn().mockResolvedValue('skip')
+      const generator = new ProjectGenerator({ resolveConflict })
+
+      await generator.generate(template, {
+        ...config,
+        conflictStrategy: 'merge',
+        interactive: false,
+      })
+
+      expect(resolveConflict).not.toHaveBeenCalled()
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits\n# my-app\n')
+    })
+
+    it('merges JSON files with the merge strategy', async () => {
+      await writeFile(
+        join(projectPath, 'package.json'),
+        JSON.stringify({ name: 'my-app', scripts: { test: 'vitest' } }),
+      )
+      const resolveConflict = vi.fn().mockResolvedValue('overwrite')
+
+      await new ProjectGenerator({ resolveConflict }).generate(template, {
+        ...config,
+        conflictStrategy: 'merge',
+      })
+
+      const packageJson = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf8'))
+      expect(packageJson.scripts).toEqual({ test: 'vitest', dev: 'node src/index.js' })
+    })
+  })
+
+  describe('rollback', () => {
+    const failingTemplate = (): TemplateConfig => ({
+      ...template,
+      postInstall: async () => {
+        throw new Error('post-install failed')
+      },
+    })
+
+    it('removes the created project directory when a step fails', async () => {
+      await expect(new ProjectGenerator().generate(failingTemplate(), config)).rejects.toThrow(
+        'post-install failed',
+      )
+
+      expect(await readdir(outputPath)).toEqual([])
+    })
+
+    it('restores overwritten files and keeps files that existed before', async () => {
+      const projectPath = join(outputPath, 'my-app')
+      await mkdir(projectPath)
+      await writeFile(join(projectPath, 'README.md'), 'local edits')
+      await writeFile(join(projectPath, 'notes.txt'), 'keep me')
+
+      await expect(
+        new ProjectGenerator().generate(failingTemplate(), {
+          ...config,
+          conflictStrategy: 'overwrite',
+        }),
+      ).rejects.toThrow()
+
+      expect((await readdir(projectPath)).sort()).toEqual(['README.md', 'notes.txt'])
+      expect(await readFile(join(projectPath, 'README.md'), 'utf8')).toBe('local edits')
+    })
+
+    it('keeps the dependency error of a failed install', async () => {
+      exec.mockImplementationOnce((_command, _options, callback) => callback(new Error('E404')))
+
+      const error = await new ProjectGenerator()
+        .generate(template, { ...config, answers: { ...config.answers, installDeps: true } })
+        .catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(DependencyError)
+      expect(getExitCode(error)).toBe(5)
+      expect(await readdir(outputPath)).toEqual([])
+    })
+
+    it('leaves generated files in place with keepOnFailure', async () => {
+      await expect(
+        new ProjectGenerator().generate(failingTemplate(), { ...config, keepOnFailure: true }),
+      ).rejects.toThrow()
+
+      expect(await readdir(join(outputPath, 'my-app'))).toContain('README.md')
+    })
+  })
+})
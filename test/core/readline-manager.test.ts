@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PassThrough } from 'node:stream'
+import { NavigateBack, ReadlineManager } from '../../src/core/readline-manager.js'
+import { ReadlineError, ValidationError } from '../../src/errors/index.js'
+
+const UP = '\x1b[A'
+const DOWN = '\x1b[B'
+
+describe('ReadlineManager', () => {
+  let input: PassThrough & { isTTY?: boolean; setRawMode?: (mode: boolean) => void }
+  let output: PassThrough
+  let manager: ReadlineManager
+
+  const press = (...keys: string[]): void => {
+    for (const key of keys) input.write(key)
+  }
+  const choices = [
+    { name: 'React', value: 'react', description: 'A UI library' },
+    { name: 'Vue', value: 'vue' },
+    { name: 'Svelte', value: 'svelte' },
+  ]
+
+  beforeEach(() => {
+    input = new PassThrough()
+    input.isTTY = true
+    input.setRawMode = vi.fn()
+    output = new PassThrough()
+    manager = new ReadlineManager({ input: input as any, output: output as any })
+  })
+
+  it('is only interactive on a TTY with raw mode', () => {
+    expect(manager.isInteractive()).toBe(true)
+    expect(new ReadlineManager({ input: new PassThrough() as any }).isInteractive()).toBe(false)
+  })
+
+  it('selects the focused choice with the arrow keys', async () => {
+    const result = manager.select('Framework', choices)
+    press(DOWN, DOWN, DOWN, UP, '\r')
+
+    expect(await result).toBe('svelte')
+    expect(input.setRawMode).toHaveBeenLastCalledWith(false)
+  })
+
+  it('starts on the initial value and shows the focused description', async () => {
+    const result = manager.select('Framework', choices, { initial: 'vue' })
+    press(UP, '\r')
+
+    expect(await result).toBe('react')
+    expect(output.read().toString()).toContain('A UI library')
+  })
+
+  it('scrolls lists taller than the terminal with the focused choice', async () => {
+    Object.assign(output, { rows: 5 })
+    const result = manager.select('Framework', choices)
+    const first = output.read().toString()
+    press(UP, '\r')
+
+    expect(await result).toBe('svelte')
+    expect(first).toContain('Vue')
+    expect(first).not.toContain('Svelte')
+    expect(output.read().toString()).not.toContain('React')
+  })
+
+  it('rejects empty lists before entering raw mode', async () => {
+    await expect(manager.select('Framework', [])).rejects.toThrow(ValidationError)
+    await expect(manager.multiselect('Features', [])).rejects.toThrow(ValidationError)
+    expect(input.setRawMode).not.toHaveBeenCalled()
+  })
+
+  it('toggles choices with space and all choices with a', async () => {
+    const result = manager.multiselect('Features', choices, { initial: ['vue'] })
+    press(' ', DOWN, DOWN, ' ', '\r')
+    expect(await result).toEqual(['react', 'vue', 'svelte'])
+
+    const none = manager.multiselect('Features', choices)
+    press('a', 'a', '\r')
+    expect(await none).toEqual([])
+  })
+
+  it('filters choices as the user types', async () => {
+    const result = manager.autocomplete('Framework', { choices })
+    press('s', 'v', '\r')
+
+    expect(await result).toBe('svelte')
+  })
+
+  it('loads choices from an async source for the typed text', async () => {
+    const source = vi.fn(async (query: string) =>
+      choices.filter(choice => choice.value.startsWith(query)),
+    )
+    const result = manager.autocomplete('Framework', { source })
+    await vi.waitFor(() => expect(source).toHaveBeenCalledWith(''))
+
+    press('v')
+    await vi.waitFor(() => expect(source).toHaveBeenCalledWith('v'))
+    await new Promise(resolve => setImmediate(resolve))
+    press('\r')
+
+    expect(await result).toBe('vue')
+  })
+
+  it('masks password input and supports backspace', async () => {
+    const result = manager.password('Token: ')
+    press('s', 'e', 'x', '\x7f', 'c', 'r', 'e', 't', '\r')
+
+    expect(await result).toBe('secret')
+    const written = output.read().toString()
+    expect(written).toContain('Token: ******')
+    expect(written).not.toContain('secret')
+  })
+
+  describe('editor', () => {
+    const { VISUAL, EDITOR } = process.env
+
+    afterEach(() => {
+      process.env.VISUAL = VISUAL
+      process.env.EDITOR = EDITOR
+      if (VISUAL === undefined) delete process.env.VISUAL
+      if (EDITOR === undefined) delete process.env.EDITOR
+    })
+
+    it('opens $EDITOR on a temp file with the initial text and reads it back', async () => {
+      delete process.env.VISUAL
+      process.env.EDITOR = `sh -c 'printf " edited" >> "$0"'`
+
+      expect(await manager.editor('Description', { initial: 'draft', extension: '.md' })).toBe(
+        'draft edited',
+      )
+    })
+
+    it('fails when the editor exits with an error', async () => {
+      delete process.env.VISUAL
+      process.env.EDITOR = 'false'
+
+      await expect(manager.editor('Description')).rejects.toThrow(ReadlineError)
+    })
+
+    it('reads lines until the sentinel without an editor', async () => {
+      delete process.env.VISUAL
+      delete process.env.EDITOR
+
+      const result = manager.editor('Description', { initial: 'draft' })
+      input.write('first line\nsecond line\n.\n')
+
+      expect(await result).toBe('first line\nsecond line')
+      manager.cleanup()
+    })
+  })
+
+  it('goes back on Escape only while back navigation is enabled', async () => {
+    manager.setBackNavigation(true)
+    const result = manager.select('Framework', choices)
+    press('\x1b\x1b')
+
+    await expect(result).rejects.toThrow(NavigateBack)
+  })
+
+  it('rejects with a ReadlineError on Ctrl+C', async () => {
+    const result = manager.select('Framework', choices)
+    press('\x03')
+
+    await expect(result).rejects.toThrow(ReadlineError)
+  })
+})
@@ -59,8 +59,54 @@ describe('UIManager', () => {
     expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('ℹ️'))
   })
 
+  it('should show a section heading with the step', () => {
+    uiManager.showSection('Styling', { step: 2, total: 3, description: 'Pick a CSS setup' })
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Step 2/3 · Styling'))
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Pick a CSS setup'))
+  })
+
+  it('should show a summary table', () => {
+    uiManager.showSummary('Review your answers', [
+      { label: 'projectName', value: 'my-app' },
+      { label: 'framework', value: 'Vue' },
+    ])
+
+    const output = consoleSpy.mock.calls
+      .map((call: unknown[]) => String(call[0]))
+      .join('\n')
+      // eslint-disable-next-line no-control-regex
+      .replace(/\x1b\[[0-9;]*m/g, '')
+    expect(output).toContain('Review your answers')
+    expect(output).toContain('│ projectName │ my-app │')
+    expect(output).toContain('│ framework   │ Vue    │')
+    expect(output).toContain('└─────────────┴────────┘')
+  })
+
   it('should show progress bar', () => {
     uiManager.showProgress('Loading', 50, 100)
     expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('50%'))
   })
+
+  it('should show a generation plan as a file tree', () => {
+    uiManager.showPlan({
+      projectPath: '/tmp/my-app',
+      files: [
+        { path: 'src/index.ts', size: 10 },
+        { path: 'package.json', size: 2048, conflict: 'overwrite' },
+      ],
+      packageJson: { name: 'my-app' },
+      install: true,
+      packageManager: 'pnpm',
+      postInstall: false,
+    })
+
+    const output = consoleSpy.mock.calls.map((call: unknown[]) => String(call[0])).join('\n')
+    expect(output).toContain('src/')
+    expect(output).toContain('└── ')
+    expect(output).toContain('index.ts')
+    expect(output).toContain('2.0 KB')
+    expect(output).toContain('overwrites existing file')
+    expect(output).toContain('Install dependencies: yes (pnpm install)')
+  })
 })
+
@@ -10,7 +10,10 @@ import {
   ConfigurationError,
   NetworkError,
   ProcessError,
-  ErrorFactory
+  ErrorFactory,
+  CommanderError,
+  exitCodes,
+  getExitCode
 } from '../../src/errors/index.js'
 import { CLIErrorContext } from '~/index.js'
 
@@ -127,4 +130,17 @@ describe('Error System', () => {
       expect(json.stack).toBeDefined()
     })
   })
+
+  describe('getExitCode', () => {
+    it('should use a distinct exit code per error type', () => {
+      expect(getExitCode(ErrorFactory.validation('Invalid'))).toBe(2)
+      expect(getExitCode(ErrorFactory.plugin('Broken plugin'))).toBe(exitCodes.PLUGIN_ERROR)
+      expect(new Set(Object.values(exitCodes)).size).toBe(Object.keys(exitCodes).length)
+    })
+
+    it('should use the exit code of commander errors and 1 otherwise', () => {
+      expect(getExitCode(new CommanderError('help', 0))).toBe(0)
+      expect(getExitCode(new Error('Unknown'))).toBe(1)
+    })
+  })
 })
@@ -50,4 +50,94 @@ describe('PluginManager executeHook', () => {
 
     expect(onError).toHaveBeenCalled()
   })
+
+  it('passes the value returned by each plugin to the next one', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const pm = new PluginManager()
+    await pm.install({
+      name: 'first',
+      version: '1.0.0',
+      hooks: { afterAnswers: answers => ({ ...answers, slug: 'my-app' }) },
+    })
+    await pm.install({ name: 'second', version: '1.0.0', hooks: { afterAnswers: () => {} } })
+    await pm.install({
+      name: 'third',
+      version: '1.0.0',
+      hooks: { afterAnswers: async answers => ({ ...answers, scope: `@${answers.slug}` }) },
+    })
+
+    const answers = await pm.executeHook('afterAnswers', { projectName: 'My App' })
+
+    expect(answers).toEqual({ projectName: 'My App', slug: 'my-app', scope: '@my-app' })
+  })
+
+  it('stops the chain when beforeWriteFile vetoes a file', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const pm = new PluginManager()
+    const later = vi.fn()
+    await pm.install({ name: 'veto', version: '1.0.0', hooks: { beforeWriteFile: () => false } })
+    await pm.install({ name: 'later', version: '1.0.0', hooks: { beforeWriteFile: later } })
+
+    const file = { path: 'LICENSE', projectPath: '/tmp/app' }
+    expect(await pm.executeHook('beforeWriteFile', file, 'MIT')).toBe(false)
+    expect(later).not.toHaveBeenCalled()
+  })
+
+  it('keeps the previous value when a waterfall hook fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const pm = new PluginManager()
+    await pm.install({
+      name: 'broken',
+      version: '1.0.0',
+      hooks: {
+        afterPrompt: () => {
+          throw new Error('boom')
+        },
+      },
+    })
+
+    const prompt = { name: 'projectName', type: 'input' as const, message: 'Name' }
+    expect(await pm.executeHook('afterPrompt', prompt, 'my-app', {})).toBe('my-app')
+    expect(warnSpy).toHaveBeenCalled()
+  })
+
+  describe('concurrency', () => {
+    const install = async (pm: PluginManager, calls: string[]) => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      for (const name of ['slow', 'fast']) {
+        await pm.install({
+          name,
+          version: '1.0.0',
+          hooks: {
+            afterGenerate: async () => {
+              calls.push(`${name}:start`)
+              await new Promise(resolve => setTimeout(resolve, name === 'slow' ? 20 : 0))
+              calls.push(`${name}:end`)
+            },
+          },
+        })
+      }
+    }
+
+    it('runs hooks that return nothing concurrently', async () => {
+      const pm = new PluginManager()
+      const calls: string[] = []
+      await install(pm, calls)
+
+      await pm.executeHook('afterGenerate', {}, '/tmp/app')
+
+      expect(calls).toEqual(['slow:start', 'fast:start', 'fast:end', 'slow:end'])
+    })
+
+    it('runs them one plugin at a time with the sequential option', async () => {
+      const pm = new PluginManager({ sequential: true })
+      const calls: string[] = []
+      await install(pm, calls)
+
+      await pm.executeHook('afterGenerate', {}, '/tmp/app')
+
+      expect(calls).toEqual(['slow:start', 'slow:end', 'fast:start', 'fast:end'])
+    })
+  })
 })
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PluginError } from '../../src/errors/index.js'
+import { cliRoot, loadPlugin, pluginSpecName } from '../../src/plugins/plugin-loader.js'
+import type { PluginContext } from '../../src/types/index.js'
+
+describe('loadPlugin', () => {
+  let root: string
+  const context = { store: new Map() } as PluginContext
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'plugin-loader-'))
+    await mkdir(join(root, 'plugins'))
+    await mkdir(join(root, 'node_modules', '@acme', 'docker'), { recursive: true })
+
+    await writeFile(
+      join(root, 'plugins', 'lint.mjs'),
+      "export default { name: 'lint', version: '1.0.0' }\n",
+    )
+    await writeFile(
+      join(root, 'plugins', 'factory.mjs'),
+      "export default options => ({ name: 'factory', version: '1.0.0', description: options.label })\n",
+    )
+    await writeFile(join(root, 'plugins', 'empty.mjs'), 'export const answer = 42\n')
+    await writeFile(
+      join(root, 'node_modules', '@acme', 'docker', 'package.json'),
+      JSON.stringify({ name: '@acme/docker', version: '2.0.0', main: 'index.js' }),
+    )
+    await writeFile(
+      join(root, 'node_modules', '@acme', 'docker', 'index.js'),
+      "module.exports = { name: 'docker', version: '2.0.0' }\n",
+    )
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('returns plugin objects as they are', async () => {
+    const plugin = { name: 'inline', version: '1.0.0' }
+
+    expect(await loadPlugin(plugin, root, context)).toBe(plugin)
+  })
+
+  it('imports paths relative to the root, adding an extension when missing', async () => {
+    expect(await loadPlugin('./plugins/lint.mjs', root, context)).toEqual({
+      name: 'lint',
+      version: '1.0.0',
+    })
+    expect((await loadPlugin('./plugins/lint', root, context)).name).toBe('lint')
+  })
+
+  it('calls exported factories with the options of a tuple', async () => {
+    const plugin = await loadPlugin(['./plugins/factory.mjs', { label: 'Built' }], root, context)
+
+    expect(plugin).toEqual({ name: 'factory', version: '1.0.0', description: 'Built' })
+  })
+
+  it('calls factories with the options and the plugin context', async () => {
+    const factory = vi.fn((options: Record<string, unknown>, ctx: PluginContext) => {
+      ctx.store.set('image', options.image)
+      return { name: 'docker', version: '1.0.0' }
+    })
+
+    expect(await loadPlugin([factory, { image: 'node:22' }], root, context)).toEqual({
+      name: 'docker',
+      version: '1.0.0',
+    })
+    expect(factory).toHaveBeenCalledWith({ image: 'node:22' }, context)
+    expect(context.store.get('image')).toBe('node:22')
+
+    await loadPlugin(factory, root, context)
+    expect(factory).toHaveBeenLastCalledWith({}, context)
+  })
+
+  it('reports factories that fail or return no plugin', async () => {
+    const failing = () => {
+      throw new Error('no image')
+    }
+    await expect(loadPlugin(failing, root, context)).rejects.toThrow(
+      "Plugin factory of 'failing' failed: no image",
+    )
+    await expect(loadPlugin(() => undefined as any, root, context)).rejects.toThrow(
+      "Plugin factory of 'anonymous plugin factory' did not return a plugin",
+    )
+  })
+
+  it('resolves package names from the node_modules of the root', async () => {
+    expect(await loadPlugin('@acme/docker', root, context)).toEqual({
+      name: 'docker',
+      version: '2.0.0',
+    })
+  })
+
+  it('lists the attempted paths when a plugin cannot be found', async () => {
+    const error = await loadPlugin('./plugins/missing', root, context).catch(e => e)
+
+    expect(error).toBeInstanceOf(PluginError)
+    expect(error.message).toContain("Cannot find plugin './plugins/missing'")
+    expect(error.context.additionalInfo.attempted).toEqual([
+      join(root, 'plugins', 'missing'),
+      join(root, 'plugins', 'missing.js'),
+      join(root, 'plugins', 'missing.mjs'),
+      join(root, 'plugins', 'missing.cjs'),
+      join(root, 'plugins', 'missing', 'index.js'),
+    ])
+  })
+
+  it('looks for packages in every node_modules directory above the root', async () => {
+    const error = await loadPlugin('@acme/missing-plugin', root, context).catch(e => e)
+
+    expect(error).toBeInstanceOf(PluginError)
+    expect(error.context.additionalInfo.attempted).toContain(
+      join(root, 'node_modules', '@acme', 'missing-plugin'),
+    )
+  })
+
+  it('rejects modules that do not export a plugin', async () => {
+    await expect(loadPlugin('./plugins/empty.mjs', root, context)).rejects.toThrow(
+      "Module './plugins/empty.mjs' does not export a plugin",
+    )
+  })
+
+  it('names specs for messages', () => {
+    expect(pluginSpecName('./lint.js')).toBe('./lint.js')
+    expect(pluginSpecName(['@acme/docker', {}])).toBe('@acme/docker')
+    expect(pluginSpecName({ name: 'inline', version: '1.0.0' })).toBe('inline')
+    expect(pluginSpecName([function docker() {}, {}] as any)).toBe('docker')
+  })
+})
+
+describe('cliRoot', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'cli-root-')))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('finds the package of the entry script through symlinks', async () => {
+    const cli = join(dir, 'node_modules', 'create-app')
+    await mkdir(join(cli, 'dist', 'bin'), { recursive: true })
+    await mkdir(join(dir, 'node_modules', '.bin'))
+    await writeFile(join(cli, 'package.json'), '{}')
+    await writeFile(join(cli, 'dist', 'bin', 'cli.js'), '')
+    const bin = join(dir, 'node_modules', '.bin', 'create-app')
+    await symlink(join(cli, 'dist', 'bin', 'cli.js'), bin)
+
+    expect(await cliRoot(bin)).toBe(cli)
+  })
+
+  it('falls back to the working directory when the entry script does not exist', async () => {
+    expect(await cliRoot(join(dir, 'missing.js'))).toBe(process.cwd())
+  })
+})
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PluginError } from '../../src/errors/index.js'
 import { PluginManager } from '../../src/plugins/plugin-manager.js'
 import type { PluginConfig } from '../../src/types/index.js'
 
@@ -187,4 +188,93 @@ describe('PluginManager', () => {
     expect(themes.testTheme).toBeDefined()
     expect(themes.testTheme.primary).toBe('#ff0000')
   })
+
+  describe('ordering', () => {
+    const plugin = (name: string, extra: Partial<PluginConfig> = {}): PluginConfig => ({
+      name,
+      version: '1.0.0',
+      ...extra,
+    })
+
+    const names = () => pluginManager.resolveOrder().map(p => p.name)
+
+    it('runs dependencies first and honours before, after and enforce', async () => {
+      await pluginManager.install(plugin('lint', { dependsOn: { typescript: '^1.0.0' } }))
+      await pluginManager.install(plugin('git', { enforce: 'post' }))
+      await pluginManager.install(plugin('typescript'))
+      await pluginManager.install(plugin('license', { enforce: 'pre', after: ['typescript'] }))
+      await pluginManager.install(plugin('readme', { before: ['lint', 'missing'] }))
+
+      expect(names()).toEqual(['typescript', 'license', 'readme', 'lint', 'git'])
+    })
+
+    it('runs hooks in the resolved order', async () => {
+      const calls: string[] = []
+      const record = (name: string) => () => {
+        calls.push(name)
+      }
+      await pluginManager.install(
+        plugin('late', { enforce: 'post', hooks: { beforeGenerate: record('late') } }),
+      )
+      await pluginManager.install(
+        plugin('early', { enforce: 'pre', hooks: { beforeGenerate: record('early') } }),
+      )
+
+      await pluginManager.executeHook('beforeGenerate', {})
+
+      expect(calls).toEqual(['early', 'late'])
+    })
+
+    it('waits for each plugin in the resolved order with the sequential option', async () => {
+      const manager = new PluginManager({ sequential: true })
+      const calls: string[] = []
+      const record = (name: string, delay: number) => async () => {
+        await new Promise(resolve => setTimeout(resolve, delay))
+        calls.push(name)
+      }
+      await manager.install(
+        plugin('lint', {
+          dependsOn: { typescript: '*' },
+          hooks: { afterInstall: record('lint', 0) },
+        }),
+      )
+      await manager.install(
+        plugin('typescript', { hooks: { afterInstall: record('typescript', 20) } }),
+      )
+
+      await manager.executeHook('afterInstall', '/tmp/app')
+
+      expect(calls).toEqual(['typescript', 'lint'])
+    })
+
+    it('rejects missing dependencies and versions outside the range', async () => {
+      await pluginManager.install(plugin('lint', { dependsOn: { typescript: '^2.0.0' } }))
+      expect(() => pluginManager.resolveOrder()).toThrow(
+        "Plugin 'lint' depends on 'typescript', which is not installed",
+      )
+
+      await pluginManager.install(plugin('typescript'))
+      expect(() => pluginManager.resolveOrder()).toThrow(
+        "Plugin 'lint' requires 'typescript@^2.0.0', but version 1.0.0 is installed",
+      )
+    })
+
+    it('rejects invalid dependency ranges on install', async () => {
+      await expect(
+        pluginManager.install(plugin('lint', { dependsOn: { typescript: 'not-a-range' } })),
+      ).rejects.toThrow("Invalid version range 'not-a-range' for dependency 'typescript'")
+    })
+
+    it('reports ordering cycles', async () => {
+      await pluginManager.install(plugin('a', { after: ['c'] }))
+      await pluginManager.install(plugin('b', { dependsOn: { a: '*' } }))
+      await pluginManager.install(plugin('c', { after: ['b'] }))
+      await pluginManager.install(plugin('d', { dependsOn: { c: '1.x' } }))
+
+      expect(() => pluginManager.resolveOrder()).toThrow(PluginError)
+      expect(() => pluginManager.resolveOrder()).toThrow(
+        "Plugin order constraints form a cycle: 'b' -> 'c' -> 'a' -> 'b'",
+      )
+    })
+  })
 })
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, mergeContents, mergeValues } from '../../src/utils/diff.js'
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', line: 'a' },
+      { type: 'remove', line: 'b' },
+      { type: 'add', line: 'x' },
+      { type: 'same', line: 'c' },
+    ])
+  })
+})
+
+describe('mergeValues', () => {
+  it('keeps existing scalars and adds new keys and array items', () => {
+    expect(
+      mergeValues(
+        { name: 'local', scripts: { dev: 'vite' }, keywords: ['a'] },
+        { name: 'template', scripts: { dev: 'next', build: 'tsc' }, keywords: ['a', 'b'] },
+      ),
+    ).toEqual({
+      name: 'local',
+      scripts: { dev: 'vite', build: 'tsc' },
+      keywords: ['a', 'b'],
+    })
+  })
+})
+
+describe('mergeContents', () => {
+  it('merges JSON files structurally', () => {
+    const merged = mergeContents('package.json', '{"a":1}', '{"a":2,"b":3}')
+    expect(JSON.parse(merged)).toEqual({ a: 1, b: 3 })
+  })
+
+  it('appends missing lines to text files', () => {
+    expect(mergeContents('.gitignore', 'node_modules\n', 'node_modules\ndist\n')).toBe(
+      'node_modules\ndist\n',
+    )
+    expect(mergeContents('.gitignore', 'dist\n', 'dist\n')).toBe('dist\n')
+  })
+})
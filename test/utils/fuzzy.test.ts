@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { fuzzyFilter, fuzzyScore } from '../../src/utils/fuzzy.js'
+
+describe('fuzzyScore', () => {
+  it('matches characters in order, case-insensitively', () => {
+    expect(fuzzyScore('nxt', 'Next.js')).not.toBeNull()
+    expect(fuzzyScore('xn', 'Next.js')).toBeNull()
+    expect(fuzzyScore('', 'anything')).toBe(0)
+  })
+
+  it('ranks word starts and consecutive characters higher', () => {
+    expect(fuzzyScore('rr', 'react-router')!).toBeGreaterThan(fuzzyScore('rr', 'error')!)
+    expect(fuzzyScore('vue', 'vue')!).toBeGreaterThan(fuzzyScore('vue', 'vite-ui-extra')!)
+  })
+})
+
+describe('fuzzyFilter', () => {
+  const choices = [
+    { name: 'Vite', value: 'vite' },
+    { name: 'Vue', value: 'vue' },
+    { name: 'React', value: 'react' },
+  ]
+
+  it('keeps matching choices, best first', () => {
+    expect(fuzzyFilter('vue', choices).map(c => c.value)).toEqual(['vue'])
+    expect(fuzzyFilter('ve', choices).map(c => c.value)).toEqual(['vue', 'vite'])
+  })
+
+  it('returns every choice for an empty query', () => {
+    expect(fuzzyFilter(' ', choices)).toBe(choices)
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  detectFromUserAgent,
+  detectPackageManager,
+  getInstallCommand,
+  getRunCommand,
+} from '../../src/utils/package-manager.js'
+
+describe('detectFromUserAgent', () => {
+  it('reads the package manager name from the user agent', () => {
+    expect(detectFromUserAgent('pnpm/9.1.0 npm/? node/v20.11.0 linux x64')).toBe('pnpm')
+    expect(detectFromUserAgent('bun/1.1.0 npm/? node/v22.0.0 linux x64')).toBe('bun')
+    expect(detectFromUserAgent('deno/1.0.0')).toBeUndefined()
+    expect(detectFromUserAgent('')).toBeUndefined()
+  })
+})
+
+describe('detectPackageManager', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pm-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('prefers the first explicit choice', async () => {
+    await writeFile(join(dir, 'yarn.lock'), '')
+    const pm = await detectPackageManager({
+      preferred: [undefined, 'bun', 'pnpm'],
+      cwd: dir,
+      userAgent: 'yarn/1.22.0',
+    })
+    expect(pm).toBe('bun')
+  })
+
+  it('falls back to the user agent, then the lockfile, then npm', async () => {
+    expect(await detectPackageManager({ cwd: dir, userAgent: 'yarn/1.22.0' })).toBe('yarn')
+
+    await writeFile(join(dir, 'pnpm-lock.yaml'), '')
+    expect(await detectPackageManager({ cwd: dir, userAgent: '' })).toBe('pnpm')
+
+    await rm(join(dir, 'pnpm-lock.yaml'))
+    expect(await detectPackageManager({ cwd: dir, userAgent: '' })).toBe('npm')
+  })
+})
+
+describe('commands', () => {
+  it('builds install and run commands per package manager', () => {
+    expect(getInstallCommand('npm')).toBe('npm install')
+    expect(getInstallCommand('yarn')).toBe('yarn')
+    expect(getRunCommand('npm', 'dev')).toBe('npm run dev')
+    expect(getRunCommand('bun', 'dev')).toBe('bun run dev')
+    expect(getRunCommand('pnpm', 'dev')).toBe('pnpm dev')
+  })
+})
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { REDACTED, redactAnswers } from '../../src/utils/redact.js'
+
+describe('redactAnswers', () => {
+  it('replaces the answers of password prompts only', () => {
+    const answers = { projectName: 'my-app', npmToken: 'abc123' }
+    const prompts = [
+      { name: 'projectName', type: 'input' as const, message: 'Project name' },
+      { name: 'npmToken', type: 'password' as const, message: 'npm token' },
+    ]
+
+    expect(redactAnswers(answers, prompts)).toEqual({ projectName: 'my-app', npmToken: REDACTED })
+    expect(answers.npmToken).toBe('abc123')
+  })
+})
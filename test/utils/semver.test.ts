@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { ValidationError } from '../../src/errors/index.js'
+import { compareVersions, isValidRange, parseVersion, satisfies } from '../../src/utils/semver.js'
+
+describe('parseVersion', () => {
+  it('parses full versions with pre-release and build metadata', () => {
+    expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] })
+    expect(parseVersion('2.0.0-beta.1+sha.42')).toEqual({
+      major: 2,
+      minor: 0,
+      patch: 0,
+      prerelease: ['beta', 1],
+    })
+    expect(parseVersion('1.2')).toBeNull()
+  })
+})
+
+describe('compareVersions', () => {
+  it('orders versions by precedence', () => {
+    const versions = [
+      '1.0.0',
+      '1.0.0-rc.1',
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '0.9.0',
+      '1.0.0-beta.11',
+      '1.0.0-beta.2',
+    ]
+    expect(versions.sort(compareVersions)).toEqual([
+      '0.9.0',
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+    ])
+  })
+
+  it('rejects invalid versions', () => {
+    expect(() => compareVersions('1.0', '1.0.0')).toThrow(ValidationError)
+  })
+})
+
+describe('satisfies', () => {
+  it.each([
+    ['1.4.2', '^1.2.0', true],
+    ['2.0.0', '^1.2.0', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.9.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['5.0.0', '*', true],
+    ['1.2.4', '=1.2.3', false],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+    ['1.2.9', '<=1.2', true],
+    ['1.0.0', '>= 1.0.0 < 2', true],
+    ['2.3.9', '1.0.0 - 2.3', true],
+    ['2.4.0', '1.0.0 - 2.3', false],
+    ['3.1.0', '^1.0.0 || >=3.0.0 <4', true],
+    ['2.1.0', '^1.0.0 || >=3.0.0 <4', false],
+    ['1.0.0-beta', '>=1.0.0', false],
+    ['2.0.0-beta.1', '^1.0.0', false],
+    ['1.2.0-rc.1', '^1.0.0', false],
+    ['1.2.0-rc.1', '>=1.2.0-rc.0', true],
+    ['1.2.1-rc.1', '>=1.2.0-rc.0', false],
+    ['1.2.0-rc.1', '^1.0.0 || >=1.2.0-rc.0 <2', true],
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected)
+  })
+
+  it('is false for invalid versions and throws for invalid ranges', () => {
+    expect(satisfies('latest', '^1.0.0')).toBe(false)
+    expect(() => satisfies('1.0.0', '^one')).toThrow("Invalid version range '^one'")
+    expect(isValidRange('>=1.2.0 <2')).toBe(true)
+    expect(isValidRange('~>1.0')).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { TemplateError } from '../../src/errors/index.js'
+import { templateFromDirectory } from '../../src/utils/template-directory.js'
+
+describe('templateFromDirectory', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'template-dir-'))
+    await mkdir(join(dir, 'src'))
+    await mkdir(join(dir, 'node_modules/pkg'), { recursive: true })
+    await writeFile(join(dir, 'src/{{projectName}}.ts'), 'export {}\n')
+    await writeFile(join(dir, '_gitignore'), 'node_modules\n')
+    await writeFile(join(dir, 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x01]))
+    await writeFile(join(dir, 'debug.log'), 'noise')
+    await writeFile(join(dir, 'node_modules/pkg/index.js'), '')
+    await writeFile(
+      join(dir, 'template.json'),
+      JSON.stringify({
+        name: 'starter',
+        description: 'Starter project',
+        dependencies: { react: '^18.0.0' },
+        devDependencies: { vite: '^5.0.0' },
+        scripts: { dev: 'vite' },
+      }),
+    )
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('turns the files into template entries and reads the manifest', async () => {
+    const template = await templateFromDirectory(dir, { ignore: ['*.log'] })
+
+    expect(template.name).toBe('starter')
+    expect(template.description).toBe('Starter project')
+    expect(template.dependencies).toEqual({
+      dependencies: { react: '^18.0.0' },
+      devDepencies: { vite: '^5.0.0' },
+      peerDependencies: undefined,
+    })
+    expect(template.scripts).toEqual({ dev: 'vite' })
+    expect(template.files).toEqual([
+      { path: '.gitignore', source: join(dir, '_gitignore') },
+      { path: 'logo.png', source: join(dir, 'logo.png'), raw: true },
+      { path: 'src/{{projectName}}.ts', source: join(dir, 'src/{{projectName}}.ts') },
+    ])
+  })
+
+  it('lets options override the manifest', async () => {
+    const template = await templateFromDirectory(dir, {
+      name: 'custom',
+      renames: { _gitignore: 'gitignore.txt' },
+      ignore: ['src/**'],
+    })
+
+    expect(template.name).toBe('custom')
+    expect(template.files.map(file => file.path)).toEqual([
+      'gitignore.txt',
+      'debug.log',
+      'logo.png',
+    ])
+  })
+
+  it('throws a TemplateError for a missing directory', async () => {
+    await expect(templateFromDirectory(join(dir, 'missing'))).rejects.toThrow(TemplateError)
+  })
+})
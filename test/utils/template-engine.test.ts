@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { TemplateError } from '../../src/errors/index.js'
+import { renderTemplate } from '../../src/utils/template-engine.js'
+
+describe('renderTemplate', () => {
+  it('replaces variables and nested paths', () => {
+    expect(
+      renderTemplate('{{name}} by {{author.name}}', { name: 'app', author: { name: 'Ada' } }),
+    ).toBe('app by Ada')
+  })
+
+  it('applies case filters in order', () => {
+    const data = { name: 'my fancyButton' }
+    expect(renderTemplate('{{name | kebabCase}}', data)).toBe('my-fancy-button')
+    expect(renderTemplate('{{name | pascalCase}}', data)).toBe('MyFancyButton')
+    expect(renderTemplate('{{name | camelCase}}', data)).toBe('myFancyButton')
+    expect(renderTemplate('{{name | snakeCase | upperCase}}', data)).toBe('MY_FANCY_BUTTON')
+  })
+
+  it('supports custom filters', () => {
+    expect(renderTemplate('{{name | shout}}', { name: 'hi' }, { shout: v => `${v}!` })).toBe('hi!')
+  })
+
+  it('renders conditionals and drops standalone block lines', () => {
+    const source = 'a\n{{#if typescript}}\nts\n{{else}}\njs\n{{/if}}\nb\n'
+    expect(renderTemplate(source, { typescript: true })).toBe('a\nts\nb\n')
+    expect(renderTemplate(source, { typescript: false })).toBe('a\njs\nb\n')
+    expect(renderTemplate('{{#unless ok}}no{{/unless}}', { ok: false })).toBe('no')
+  })
+
+  it('loops over arrays with this and @index', () => {
+    const source = '{{#each features}}{{@index}}:{{this}}{{#unless @last}},{{/unless}}{{/each}}'
+    expect(renderTemplate(source, { features: ['a', 'b'] })).toBe('0:a,1:b')
+    expect(
+      renderTemplate('{{#each deps}}{{name}}@{{version}} {{/each}}', {
+        deps: [{ name: 'x', version: '1' }],
+      }),
+    ).toBe('x@1 ')
+  })
+
+  it('leaves JSX, undefined variables and escaped tags alone', () => {
+    expect(renderTemplate("<div style={{ color: 'red' }} />", {})).toBe(
+      "<div style={{ color: 'red' }} />",
+    )
+    expect(renderTemplate('{{ message }}', {})).toBe('{{ message }}')
+    expect(renderTemplate('\\{{name}}', { name: 'app' })).toBe('{{name}}')
+  })
+
+  it('does not resolve inherited properties', () => {
+    expect(renderTemplate('{{toString}}', { name: 'app' })).toBe('{{toString}}')
+    expect(renderTemplate('{{#if constructor}}yes{{else}}no{{/if}}', {})).toBe('no')
+  })
+
+  it('throws a TemplateError for malformed templates and unknown filters', () => {
+    expect(() => renderTemplate('{{#if a}}x', { a: true })).toThrow(TemplateError)
+    expect(() => renderTemplate('{{/each}}', {})).toThrow(TemplateError)
+    expect(() => renderTemplate('{{name | nope}}', { name: 'x' })).toThrow(
+      "Unknown template filter 'nope'",
+    )
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { parseYaml } from '../../src/utils/yaml.js'
+
+describe('parseYaml', () => {
+  it('parses scalars and nested mappings', () => {
+    const result = parseYaml(`
+projectName: my-app # trailing comment
+port: 3000
+installDeps: false
+author: "Jane # Doe"
+license: ~
+nested:
+  deep:
+    key: value
+`)
+
+    expect(result).toEqual({
+      projectName: 'my-app',
+      port: 3000,
+      installDeps: false,
+      author: 'Jane # Doe',
+      license: null,
+      nested: { deep: { key: 'value' } },
+    })
+  })
+
+  it('parses block and flow sequences', () => {
+    const result = parseYaml(`
+features:
+  - typescript
+  - eslint
+tags: [a, b]
+items:
+- name: one
+  size: 1
+- name: two
+`)
+
+    expect(result).toEqual({
+      features: ['typescript', 'eslint'],
+      tags: ['a', 'b'],
+      items: [{ name: 'one', size: 1 }, { name: 'two' }],
+    })
+  })
+
+  it('parses literal block scalars', () => {
+    expect(parseYaml('description: |\n  line one\n\n  line two\nnext: 1\n')).toEqual({
+      description: 'line one\n\nline two\n',
+      next: 1,
+    })
+  })
+
+  it('throws on malformed lines', () => {
+    expect(() => parseYaml('name: a\n    broken: b')).toThrow('Unexpected indentation on line 2')
+    expect(() => parseYaml('just text')).toThrow('Expected "key: value" on line 1')
+  })
+})